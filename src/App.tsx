@@ -14,6 +14,10 @@ import { LoginPage } from "@/pages/Login";
 import { DashboardPage } from "@/pages/Dashboard";
 import { AgentConfigPage } from "@/pages/AgentConfig";
 import { LeadsPage } from "@/pages/Leads";
+import { LeadDuplicatesPage } from "@/pages/LeadDuplicates";
+import { CallsPage } from "@/pages/Calls";
+import { InboxPage } from "@/pages/Inbox";
+import { ConversationSearchPage } from "@/pages/ConversationSearch";
 import { SettingsPage } from "@/pages/Settings";
 import { IntegrationsPage } from "@/pages/Integrations";
 import { TeamManagementPage } from "@/pages/TeamManagement";
@@ -92,12 +96,18 @@ export default function App() {
             <Route element={<MainLayout />}>
               <Route path="/" element={<DashboardPage />} />
               <Route path="/agent-config" element={<AgentConfigPage />} />
+              <Route path="/inbox" element={<InboxPage />} />
+              <Route path="/search" element={<ConversationSearchPage />} />
               <Route path="/leads" element={<LeadsPage />} />
+              <Route
+                path="/leads/duplicates"
+                element={<LeadDuplicatesPage />}
+              />
               <Route
                 path="/conversations"
                 element={<Navigate to="/leads" replace />}
               />
-              <Route path="/calls" element={<Navigate to="/leads" replace />} />
+              <Route path="/calls" element={<CallsPage />} />
               <Route path="/integrations" element={<IntegrationsPage />} />
               <Route
                 path="/whatsapp"
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { syncCallCalendarEvent } from "@/lib/api";
+import { formatDayInTimeZone, formatInTimeZone } from "@/lib/utils";
+import {
+  DEFAULT_WORKING_HOURS,
+  bookCall,
+  fetchRepBusyCalls,
+  getAvailableSlots,
+  getRepTimeZone,
+  rescheduleCall,
+} from "@/lib/calls";
+import type { CallWithLead, DiscoveryCall, Lead } from "@/types";
+
+interface BookCallDialogProps {
+  lead: Lead;
+  // Reschedule this call instead of booking a new one
+  call?: DiscoveryCall | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (call: CallWithLead) => void;
+}
+
+export function BookCallDialog({
+  lead,
+  call,
+  open,
+  onOpenChange,
+  onSaved,
+}: BookCallDialogProps) {
+  const { organization, user } = useAuthStore();
+  const { config: storedConfig, fetchConfig } = useSalesConfigStore();
+  // Right after an org switch the store still holds the previous org's
+  const config =
+    storedConfig?.organization_id === organization?.id ? storedConfig : null;
+  const [repId, setRepId] = useState("");
+  const [day, setDay] = useState("");
+  const [slot, setSlot] = useState<Date | null>(null);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState<DiscoveryCall[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  // Without the rep's calls any slot might clash, so none are offered
+  const [busyError, setBusyError] = useState(false);
+  const [busyAttempt, setBusyAttempt] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reps = config?.sales_reps ?? [];
+  const rep = reps.find((r) => r.id === repId);
+  const duration =
+    call?.duration_minutes ?? config?.call_duration_minutes ?? 30;
+  const timeZone = rep ? getRepTimeZone(rep) : null;
+  const slots =
+    rep && day && !busyError
+      ? getAvailableSlots(
+          rep,
+          day,
+          duration,
+          busy.filter((c) => c.id !== call?.id),
+        )
+      : [];
+
+  useEffect(() => {
+    if (organization?.id && config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+  }, [organization?.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    setRepId(call?.rep_id ?? config?.sales_reps?.[0]?.id ?? "");
+    // Rescheduling starts on the call's day, unless that has passed
+    const callDay = call ? new Date(call.scheduled_at) : null;
+    setDay(
+      format(
+        callDay && callDay > new Date() ? callDay : new Date(),
+        "yyyy-MM-dd",
+      ),
+    );
+    setSlot(null);
+    setNotes("");
+  }, [open, call?.id, config?.id]);
+
+  // The rep's other calls decide which slots are still free
+  useEffect(() => {
+    if (!open || !organization?.id || !repId || !day) return;
+
+    let cancelled = false;
+    setSlot(null);
+    setBusy([]);
+    setBusyError(false);
+    setIsLoadingSlots(true);
+    fetchRepBusyCalls(organization.id, repId, day)
+      .then((calls) => {
+        if (!cancelled) setBusy(calls);
+      })
+      .catch((error) => {
+        console.error("Error fetching rep calls:", error);
+        if (cancelled) return;
+        setBusyError(true);
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : "Failed to load the rep's calls",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, organization?.id, repId, day, busyAttempt]);
+
+  const handleSave = async () => {
+    if (!slot || !repId) return;
+
+    setIsSaving(true);
+    try {
+      const values = {
+        rep_id: repId,
+        scheduled_at: slot,
+        duration_minutes: duration,
+      };
+      let saved: CallWithLead = call
+        ? { ...(await rescheduleCall(call, values)), lead }
+        : await bookCall(lead, { ...values, notes }, user);
+
+      try {
+        const synced = await syncCallCalendarEvent(saved.id);
+        saved = { ...saved, google_event_id: synced.google_event_id };
+      } catch (error) {
+        console.error("Error syncing calendar event:", error);
+        toast.warning(
+          "The call was saved, but the calendar event couldn't be updated",
+        );
+      }
+
+      toast.success(call ? "Call rescheduled" : "Call booked");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving call:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save call",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{call ? "Reschedule Call" : "Book Call"}</DialogTitle>
+          <DialogDescription>
+            {duration} min {config?.call_type_name || "discovery call"} in the
+            rep's working hours. The day is the rep's; times are shown in your
+            time zone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {reps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sales reps are set up yet. Add them under{" "}
+            <Link to="/agent-config" className="underline">
+              Agent Config
+            </Link>{" "}
+            first.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Rep</Label>
+                <Select value={repId} onValueChange={setRepId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a rep" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reps.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name || r.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="call-day">Rep's Day</Label>
+                <Input
+                  id="call-day"
+                  type="date"
+                  value={day}
+                  min={
+                    timeZone
+                      ? formatDayInTimeZone(new Date(), timeZone)
+                      : format(new Date(), "yyyy-MM-dd")
+                  }
+                  onChange={(e) => setDay(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {rep && timeZone && (
+              <p className="text-xs text-muted-foreground">
+                Works {(rep.working_hours ?? DEFAULT_WORKING_HOURS).start}–
+                {(rep.working_hours ?? DEFAULT_WORKING_HOURS).end} {timeZone}
+                {rep.timezone_regions?.length > 0 &&
+                  ` · covers ${rep.timezone_regions.join(", ")}`}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Time</Label>
+              {isLoadingSlots ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {[...Array(8)].map((_, i) => (
+                    <Skeleton key={i} className="h-9" />
+                  ))}
+                </div>
+              ) : busyError ? (
+                <p className="text-sm text-destructive">
+                  Couldn't load the rep's calls, so free slots are unknown.{" "}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => setBusyAttempt((n) => n + 1)}
+                  >
+                    Retry
+                  </button>
+                </p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No free slots that day
+                </p>
+              ) : (
+                <div className="grid max-h-48 grid-cols-4 gap-2 overflow-y-auto">
+                  {slots.map((s) => (
+                    <Button
+                      key={s.toISOString()}
+                      type="button"
+                      size="sm"
+                      variant={
+                        slot?.getTime() === s.getTime() ? "default" : "outline"
+                      }
+                      className="font-mono"
+                      title={
+                        timeZone
+                          ? `${formatInTimeZone(s, timeZone)} for the rep`
+                          : undefined
+                      }
+                      onClick={() => setSlot(s)}
+                    >
+                      {format(s, "HH:mm")}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!call && (
+              <div className="space-y-2">
+                <Label htmlFor="call-notes">Notes</Label>
+                <Textarea
+                  id="call-notes"
+                  rows={3}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Anything the rep should know before the call"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!slot || busyError || isLoadingSlots || isSaving}
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarPlus className="h-4 w-4 mr-2" />
+            )}
+            {call ? "Reschedule" : "Book"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
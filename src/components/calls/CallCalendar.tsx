@@ -0,0 +1,208 @@
+import { format, isSameDay, isToday } from "date-fns";
+import { cn, formatPhone } from "@/lib/utils";
+import { CALL_STATUS_COLORS } from "./CallStatusBadge";
+import type { CallCalendarView } from "@/lib/calls";
+import type { CallWithLead, SalesRepAvailability, TeamMember } from "@/types";
+
+interface CallCalendarProps {
+  calls: CallWithLead[];
+  members: TeamMember[];
+  // Reps set up under Agent Config, who calls are booked with
+  salesReps?: SalesRepAvailability[];
+  days: Date[];
+  view: CallCalendarView;
+  // Only show this rep's column or row
+  repId?: string;
+  selectedCallId?: string | null;
+  onSelectCall: (call: CallWithLead) => void;
+}
+
+// Working hours always shown in the day view, widened to fit any call
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 18;
+
+interface CalendarRep {
+  id: string;
+  name: string;
+}
+
+export const getCallLeadName = (call: CallWithLead) =>
+  call.lead?.contact_name ||
+  call.lead?.company_name ||
+  (call.lead?.phone ? formatPhone(call.lead.phone) : "Unknown lead");
+
+function CallChip({
+  call,
+  isSelected,
+  onSelect,
+}: {
+  call: CallWithLead;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "w-full rounded-md px-2 py-1 text-left text-xs transition-shadow hover:shadow",
+        CALL_STATUS_COLORS[call.status],
+        call.status === "cancelled" && "line-through opacity-70",
+        isSelected && "ring-2 ring-primary",
+      )}
+      title={`${getCallLeadName(call)} · ${call.duration_minutes} min`}
+    >
+      <span className="font-medium">
+        {format(new Date(call.scheduled_at), "HH:mm")}
+      </span>{" "}
+      <span className="truncate">{getCallLeadName(call)}</span>
+    </button>
+  );
+}
+
+export function CallCalendar({
+  calls,
+  members,
+  salesReps = [],
+  days,
+  view,
+  repId,
+  selectedCallId,
+  onSelectCall,
+}: CallCalendarProps) {
+  // Every rep, plus anyone else who has a call in range
+  const callRepIds = new Set(calls.map((call) => call.rep_id));
+  const reps: CalendarRep[] = [
+    ...salesReps,
+    ...members.filter((m) => m.role === "rep" || callRepIds.has(m.id)),
+  ].map((m) => ({ id: m.id, name: m.name || m.email || "Unnamed" }));
+  for (const id of callRepIds) {
+    if (!reps.some((rep) => rep.id === id)) {
+      reps.push({ id, name: "Unknown rep" });
+    }
+  }
+  const visibleReps = repId ? reps.filter((rep) => rep.id === repId) : reps;
+
+  const callsFor = (rep: string, day: Date, hour?: number) =>
+    calls.filter((call) => {
+      const at = new Date(call.scheduled_at);
+      return (
+        call.rep_id === rep &&
+        isSameDay(at, day) &&
+        (hour === undefined || at.getHours() === hour)
+      );
+    });
+
+  if (visibleReps.length === 0) {
+    return (
+      <p className="py-12 text-center text-sm text-muted-foreground">
+        No reps to show
+      </p>
+    );
+  }
+
+  if (view === "week") {
+    return (
+      <div className="overflow-x-auto">
+        <div
+          className="grid min-w-[900px] text-sm"
+          style={{
+            gridTemplateColumns: `10rem repeat(${days.length}, minmax(0, 1fr))`,
+          }}
+        >
+          <div />
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "border-b px-2 py-2 text-center font-medium",
+                isToday(day) && "text-primary",
+              )}
+            >
+              {format(day, "EEE d")}
+            </div>
+          ))}
+          {visibleReps.map((rep) => (
+            <div key={rep.id} className="contents">
+              <div className="truncate border-b py-2 pr-2 font-medium">
+                {rep.name}
+              </div>
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "space-y-1 border-b border-l p-1 min-h-[3rem]",
+                    isToday(day) && "bg-primary/5",
+                  )}
+                >
+                  {callsFor(rep.id, day).map((call) => (
+                    <CallChip
+                      key={call.id}
+                      call={call}
+                      isSelected={call.id === selectedCallId}
+                      onSelect={() => onSelectCall(call)}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const [day] = days;
+  const callHours = calls
+    .filter((call) => isSameDay(new Date(call.scheduled_at), day))
+    .map((call) => new Date(call.scheduled_at).getHours());
+  const startHour = Math.min(DAY_START_HOUR, ...callHours);
+  const endHour = Math.max(DAY_END_HOUR, ...callHours);
+  const hours = Array.from(
+    { length: endHour - startHour + 1 },
+    (_, i) => startHour + i,
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="grid text-sm"
+        style={{
+          gridTemplateColumns: `4rem repeat(${visibleReps.length}, minmax(10rem, 1fr))`,
+        }}
+      >
+        <div />
+        {visibleReps.map((rep) => (
+          <div
+            key={rep.id}
+            className="truncate border-b px-2 py-2 text-center font-medium"
+          >
+            {rep.name}
+          </div>
+        ))}
+        {hours.map((hour) => (
+          <div key={hour} className="contents">
+            <div className="border-b py-2 pr-2 text-right text-xs text-muted-foreground">
+              {`${String(hour).padStart(2, "0")}:00`}
+            </div>
+            {visibleReps.map((rep) => (
+              <div
+                key={rep.id}
+                className="space-y-1 border-b border-l p-1 min-h-[2.5rem]"
+              >
+                {callsFor(rep.id, day, hour).map((call) => (
+                  <CallChip
+                    key={call.id}
+                    call={call}
+                    isSelected={call.id === selectedCallId}
+                    onSelect={() => onSelectCall(call)}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { applyNoShowPolicy } from "@/lib/api";
+import { logCallOutcome } from "@/lib/calls";
+import { formatDateTime } from "@/lib/utils";
+import { callOutcomeSchema, type CallOutcomeInput } from "@/schemas/call";
+import { getCallLeadName } from "./CallCalendar";
+import { DEFAULT_CALL_OUTCOMES, type CallWithLead } from "@/types";
+
+interface CallOutcomeDialogProps {
+  call: CallWithLead | null;
+  onOpenChange: (open: boolean) => void;
+  onLogged: (call: CallWithLead) => void;
+}
+
+const LEAD_ACTIONS: {
+  value: CallOutcomeInput["lead_action"];
+  label: string;
+}[] = [
+  { value: "keep", label: "Keep current status" },
+  { value: "converted", label: "Mark as converted" },
+  { value: "lost", label: "Mark as lost" },
+];
+
+const defaultValues = (call: CallWithLead | null): CallOutcomeInput => ({
+  status: call?.status === "no_show" ? "no_show" : "completed",
+  outcome: call?.outcome ?? "",
+  notes: call?.notes ?? "",
+  next_step: call?.next_step ?? "",
+  follow_up_at: call?.follow_up_at ?? "",
+  lead_action: "keep",
+});
+
+export function CallOutcomeDialog({
+  call,
+  onOpenChange,
+  onLogged,
+}: CallOutcomeDialogProps) {
+  const { organization, user } = useAuthStore();
+  const { config: storedConfig, fetchConfig } = useSalesConfigStore();
+  // Right after an org switch the store still holds the previous org's
+  const config =
+    storedConfig?.organization_id === organization?.id ? storedConfig : null;
+  const outcomes = config?.call_outcomes ?? DEFAULT_CALL_OUTCOMES;
+
+  const form = useForm<CallOutcomeInput>({
+    resolver: zodResolver(callOutcomeSchema),
+    defaultValues: defaultValues(call),
+  });
+  const status = form.watch("status");
+
+  useEffect(() => {
+    if (organization?.id && config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+  }, [organization?.id]);
+
+  useEffect(() => {
+    if (call) form.reset(defaultValues(call));
+  }, [call?.id]);
+
+  const onSubmit = async (values: CallOutcomeInput) => {
+    if (!call) return;
+    try {
+      const updated = await logCallOutcome(call, values, user);
+      if (
+        values.status === "no_show" &&
+        call.status !== "no_show" &&
+        config?.no_show_policy?.enabled
+      ) {
+        try {
+          await applyNoShowPolicy(call.id);
+        } catch (error) {
+          console.error("Error applying no-show policy:", error);
+          toast.warning(
+            "The outcome was saved, but the lead couldn't be re-engaged",
+          );
+        }
+      }
+      toast.success("Call outcome saved");
+      onLogged(updated);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error logging call outcome:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save call outcome",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={!!call} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Log Call Outcome</DialogTitle>
+          <DialogDescription>
+            {call &&
+              `${getCallLeadName(call)} · ${formatDateTime(call.scheduled_at)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Did the call happen?</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="completed">
+                        Yes, the call took place
+                      </SelectItem>
+                      <SelectItem value="no_show">
+                        No, the lead didn't show up
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {status === "completed" && (
+              <FormField
+                control={form.control}
+                name="outcome"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Outcome</FormLabel>
+                    <Select
+                      value={field.value || undefined}
+                      onValueChange={field.onChange}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="How did it go?" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {/* Keep an outcome that has since been removed */}
+                        {field.value && !outcomes.includes(field.value) && (
+                          <SelectItem value={field.value}>
+                            {field.value}
+                          </SelectItem>
+                        )}
+                        {outcomes.map((outcome) => (
+                          <SelectItem key={outcome} value={outcome}>
+                            {outcome}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+              <FormField
+                control={form.control}
+                name="next_step"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Next Step</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Send pricing for 50 seats"
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="follow_up_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow Up On</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {call?.lead && (
+              <FormField
+                control={form.control}
+                name="lead_action"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LEAD_ACTIONS.map((action) => (
+                          <SelectItem key={action.value} value={action.value}>
+                            {action.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Currently {call?.lead?.status}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                )}
+                Save Outcome
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { CALL_STATUS_LABELS } from "@/lib/calls";
+import { cn } from "@/lib/utils";
+import type { CallStatus } from "@/types";
+
+export const CALL_STATUS_COLORS: Record<CallStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  completed:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  no_show:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+};
+
+export function CallStatusBadge({
+  status,
+  className,
+}: {
+  status: CallStatus;
+  className?: string;
+}) {
+  return (
+    <span
+      className={cn(
+        "inline-flex rounded-full px-2 py-1 text-xs font-medium",
+        CALL_STATUS_COLORS[status],
+        className,
+      )}
+    >
+      {CALL_STATUS_LABELS[status]}
+    </span>
+  );
+}
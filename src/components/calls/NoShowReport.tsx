@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { fetchMembers } from "@/lib/api";
+import { fetchNoShowStats } from "@/lib/calls";
+import type { RepNoShowStats, TeamMember } from "@/types";
+
+interface NoShowReportProps {
+  from: Date;
+  to: Date;
+  // Only these reps' calls
+  repIds?: string[];
+  description?: string;
+}
+
+const formatRate = (noShows: number, dueCalls: number) =>
+  `${dueCalls > 0 ? ((noShows / dueCalls) * 100).toFixed(0) : 0}%`;
+
+export function NoShowReport({
+  from,
+  to,
+  repIds,
+  description,
+}: NoShowReportProps) {
+  const { organization } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [stats, setStats] = useState<RepNoShowStats[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (organization?.id && config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, [organization?.id]);
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchNoShowStats(organization.id, from, to, repIds)
+      .then((data) => {
+        if (!cancelled) setStats(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching no-show stats:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organization?.id, from.getTime(), to.getTime(), repIds?.join(",")]);
+
+  const repName = (id: string) => {
+    const rep =
+      config?.sales_reps?.find((r) => r.id === id) ??
+      members.find((m) => m.id === id);
+    return rep?.name || rep?.email || "Unknown rep";
+  };
+
+  const totalDue = stats.reduce((sum, s) => sum + s.due_calls, 0);
+  const totalNoShows = stats.reduce((sum, s) => sum + s.no_shows, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>No-Show Rate by Rep</CardTitle>
+        <CardDescription>
+          {description ?? "Calls that were due to take place"}
+          {totalDue > 0 &&
+            ` · team ${formatRate(totalNoShows, totalDue)} of ${totalDue}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-6" />
+            ))}
+          </div>
+        ) : stats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No completed or missed calls in this period
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {stats.map((s) => (
+              <div
+                key={s.rep_id}
+                className="grid grid-cols-[minmax(0,1fr)_8rem_5rem] items-center gap-3 text-sm"
+              >
+                <span className="truncate font-medium">
+                  {repName(s.rep_id)}
+                </span>
+                <Progress
+                  value={(s.no_shows / s.due_calls) * 100}
+                  className="h-2"
+                />
+                <span className="text-right text-muted-foreground">
+                  {formatRate(s.no_shows, s.due_calls)} ({s.no_shows}/
+                  {s.due_calls})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuthStore } from "@/stores/authStore";
+import { supabase } from "@/lib/supabase";
+import { fetchOverdueCalls } from "@/lib/calls";
+import { getCallLeadName } from "./CallCalendar";
+import { CallOutcomeDialog } from "./CallOutcomeDialog";
+import type { CallWithLead } from "@/types";
+
+interface OverdueCallsAlertProps {
+  onLogged?: (call: CallWithLead) => void;
+}
+
+// Calls listed before the rest are summarised as "and N more"
+const MAX_LISTED = 3;
+
+// Prompts for calls that ended but were never logged. Reps see their own;
+// managers see the whole team's.
+export function OverdueCallsAlert({ onLogged }: OverdueCallsAlertProps) {
+  const { organization, user, currentMembership } = useAuthStore();
+  const [calls, setCalls] = useState<CallWithLead[]>([]);
+  const [loggingCall, setLoggingCall] = useState<CallWithLead | null>(null);
+
+  const isManager =
+    user?.role === "admin" || user?.role === "manager" || user?.is_superadmin;
+  const repId = isManager ? undefined : currentMembership?.id;
+
+  useEffect(() => {
+    if (!organization?.id || (!isManager && !repId)) return;
+
+    const loadCalls = () =>
+      fetchOverdueCalls(organization.id, repId)
+        .then(setCalls)
+        .catch((error) => {
+          console.error("Error fetching overdue calls:", error);
+        });
+    loadCalls();
+
+    // Outcomes logged anywhere else clear the prompt here too
+    const channel = supabase
+      .channel(`overdue_calls_${organization.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "sales",
+          table: "discovery_calls",
+          filter: `organization_id=eq.${organization.id}`,
+        },
+        () => loadCalls(),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id, repId, isManager]);
+
+  const handleLogged = (call: CallWithLead) => {
+    setCalls((prev) => prev.filter((c) => c.id !== call.id));
+    onLogged?.(call);
+  };
+
+  if (calls.length === 0) return null;
+
+  return (
+    <>
+      <Card className="border-amber-200 bg-amber-50">
+        <CardContent className="space-y-3 p-4">
+          <p className="flex items-center gap-2 text-sm font-medium text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            {calls.length === 1
+              ? "1 call is waiting for its outcome"
+              : `${calls.length} calls are waiting for their outcome`}
+          </p>
+          <div className="space-y-2">
+            {calls.slice(0, MAX_LISTED).map((call) => (
+              <div
+                key={call.id}
+                className="flex items-center justify-between gap-3 text-sm"
+              >
+                <span className="text-amber-900">
+                  <span className="font-medium">{getCallLeadName(call)}</span> ·{" "}
+                  {formatDistanceToNow(new Date(call.scheduled_at), {
+                    addSuffix: true,
+                  })}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setLoggingCall(call)}
+                >
+                  Log outcome
+                </Button>
+              </div>
+            ))}
+            {calls.length > MAX_LISTED && (
+              <p className="text-xs text-amber-700">
+                and {calls.length - MAX_LISTED} more
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <CallOutcomeDialog
+        call={loggingCall}
+        onOpenChange={(open) => !open && setLoggingCall(null)}
+        onLogged={handleLogged}
+      />
+    </>
+  );
+}
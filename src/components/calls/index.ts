@@ -0,0 +1,6 @@
+export { CallCalendar, getCallLeadName } from "./CallCalendar";
+export { CallStatusBadge, CALL_STATUS_COLORS } from "./CallStatusBadge";
+export { CallOutcomeDialog } from "./CallOutcomeDialog";
+export { OverdueCallsAlert } from "./OverdueCallsAlert";
+export { BookCallDialog } from "./BookCallDialog";
+export { NoShowReport } from "./NoShowReport";
@@ -0,0 +1,304 @@
+import { UseFormReturn } from "react-hook-form";
+import { AlertTriangle, Scale, Shuffle, UserPlus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuthStore } from "@/stores/authStore";
+import type {
+  LeadAssignmentStrategy,
+  QualificationScore,
+  SalesConfigFormData,
+} from "@/types";
+
+interface AssignmentTabProps {
+  form: UseFormReturn<SalesConfigFormData>;
+}
+
+const STRATEGIES: {
+  value: LeadAssignmentStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "round_robin",
+    label: "Round-robin",
+    description: "Rotate through every rep in the organization",
+  },
+  {
+    value: "timezone_region",
+    label: "By timezone region",
+    description:
+      "Pick a rep whose timezone regions (Sales Team tab) cover the lead's phone country, rotating between matches",
+  },
+  {
+    value: "team",
+    label: "By team",
+    description: "Rotate through the members of one team",
+  },
+];
+
+const TRIGGER_SCORES: { value: QualificationScore; label: string }[] = [
+  { value: "hot", label: "Hot" },
+  { value: "warm", label: "Warm" },
+  { value: "cold", label: "Cold" },
+  { value: "new", label: "New" },
+];
+
+export function AssignmentTab({ form }: AssignmentTabProps) {
+  const { teams } = useAuthStore();
+  const enabled = form.watch("lead_assignment.enabled");
+  const strategy = form.watch("lead_assignment.strategy");
+  const triggerScores = form.watch("lead_assignment.trigger_scores") || [];
+  const salesReps = form.watch("sales_reps") || [];
+  const repsWithRegions = salesReps.filter(
+    (rep) => rep.timezone_regions.length > 0,
+  );
+
+  const toggleScore = (score: QualificationScore) => {
+    form.setValue(
+      "lead_assignment.trigger_scores",
+      triggerScores.includes(score)
+        ? triggerScores.filter((s) => s !== score)
+        : [...triggerScores, score],
+    );
+  };
+
+  return (
+    <Form {...form}>
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-medium">Lead Assignment</h3>
+          <p className="text-sm text-muted-foreground">
+            Automatically assign new leads to a rep so nobody has to pick them
+            up by hand. Leads that already have an assignee are never
+            reassigned.
+          </p>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="lead_assignment.enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Enable Auto-Assignment
+                </FormLabel>
+                <FormDescription>
+                  Assign leads as soon as they reach one of the trigger scores
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {enabled && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shuffle className="h-5 w-5" />
+                  Routing
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="lead_assignment.strategy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Strategy</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {STRATEGIES.map((s) => (
+                            <SelectItem key={s.value} value={s.value}>
+                              {s.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {
+                          STRATEGIES.find((s) => s.value === field.value)
+                            ?.description
+                        }
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {strategy === "timezone_region" &&
+                  repsWithRegions.length === 0 && (
+                    <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      No sales reps have timezone regions yet. Configure them in
+                      the Sales Team tab - until then leads fall back to
+                      round-robin.
+                    </div>
+                  )}
+
+                {strategy === "team" && (
+                  <FormField
+                    control={form.control}
+                    name="lead_assignment.team_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Team</FormLabel>
+                        <Select
+                          value={field.value || ""}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a team" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {teams.map((team) => (
+                              <SelectItem key={team.id} value={team.id}>
+                                {team.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div>
+                  <FormLabel>Trigger Scores</FormLabel>
+                  <FormDescription className="mb-2">
+                    Leads are assigned when they reach any of these scores
+                  </FormDescription>
+                  <div className="flex flex-wrap gap-2">
+                    {TRIGGER_SCORES.map((score) => (
+                      <Badge
+                        key={score.value}
+                        variant={
+                          triggerScores.includes(score.value)
+                            ? "default"
+                            : "outline"
+                        }
+                        className="cursor-pointer"
+                        onClick={() => toggleScore(score.value)}
+                      >
+                        {score.label}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  Workload Balancing
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="lead_assignment.balance_workload"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel className="text-sm">
+                          Prefer Least Busy Rep
+                        </FormLabel>
+                        <FormDescription className="text-xs">
+                          Among eligible reps, pick the one with the fewest open
+                          leads instead of strict rotation
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="lead_assignment.max_open_leads_per_rep"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Open Leads per Rep</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="No limit"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              parseInt(e.target.value) || undefined,
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Reps at the limit are skipped. If everyone is at the
+                        limit the lead stays unassigned.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {!enabled && (
+          <div className="rounded-lg border border-dashed p-8 text-center">
+            <UserPlus className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-muted-foreground">
+              Auto-assignment is off. Leads can still be assigned manually from
+              the lead panel.
+            </p>
+          </div>
+        )}
+      </div>
+    </Form>
+  );
+}
@@ -10,12 +10,35 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import type { SalesConfigFormData } from "@/types";
 
 interface BasicInfoTabProps {
   form: UseFormReturn<SalesConfigFormData>;
 }
 
+const TIME_ZONES = [
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Moscow",
+  "Asia/Dubai",
+  "Asia/Almaty",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+];
+
 export function BasicInfoTab({ form }: BasicInfoTabProps) {
   return (
     <Form {...form}>
@@ -116,6 +139,41 @@ export function BasicInfoTab({ form }: BasicInfoTabProps) {
             )}
           />
         </div>
+
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem className="md:w-1/2">
+              <FormLabel>Time Zone</FormLabel>
+              <Select
+                value={field.value || undefined}
+                onValueChange={field.onChange}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Each viewer's own time zone" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {/* Keep a zone set elsewhere that isn't listed */}
+                  {field.value && !TIME_ZONES.includes(field.value) && (
+                    <SelectItem value={field.value}>{field.value}</SelectItem>
+                  )}
+                  {TIME_ZONES.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Where dashboard days start and end
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
       </div>
     </Form>
   );
@@ -1,5 +1,10 @@
+import { useState } from "react";
 import { UseFormReturn } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Form,
   FormControl,
@@ -17,24 +22,44 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LANGUAGES, getLanguageLabel } from "@/lib/utils";
 import type { SalesConfigFormData } from "@/types";
 
 interface LanguageCallsTabProps {
   form: UseFormReturn<SalesConfigFormData>;
 }
 
-const LANGUAGES = [
-  { value: "ru", label: "Russian" },
-  { value: "en", label: "English" },
-  { value: "es", label: "Spanish" },
-  { value: "de", label: "German" },
-  { value: "fr", label: "French" },
-  { value: "zh", label: "Chinese" },
-];
-
 export function LanguageCallsTab({ form }: LanguageCallsTabProps) {
+  const [newOutcome, setNewOutcome] = useState("");
   const supportedLanguages = form.watch("supported_languages") || [];
+  const callOutcomes = form.watch("call_outcomes") || [];
+  const outcomesError = form.formState.errors.call_outcomes?.message;
+  const noShowEnabled = form.watch("no_show_policy.enabled");
+  const sendRebookMessage = form.watch("no_show_policy.send_rebook_message");
+
+  const addOutcome = () => {
+    const outcome = newOutcome.trim();
+    if (!outcome || callOutcomes.includes(outcome)) return;
+    form.setValue("call_outcomes", [...callOutcomes, outcome], {
+      shouldValidate: true,
+    });
+    setNewOutcome("");
+  };
+
+  const removeOutcome = (outcome: string) => {
+    form.setValue(
+      "call_outcomes",
+      callOutcomes.filter((o) => o !== outcome),
+      { shouldValidate: true },
+    );
+  };
 
   const toggleLanguage = (lang: string) => {
     const current = form.getValues("supported_languages") || [];
@@ -159,6 +184,185 @@ export function LanguageCallsTab({ form }: LanguageCallsTabProps) {
                 )}
               />
             </div>
+
+            <div>
+              <FormLabel>Call Outcomes</FormLabel>
+              <FormDescription className="mb-2">
+                What reps can pick when they log how a call went
+              </FormDescription>
+              <div className="flex gap-2 mb-3">
+                <Input
+                  placeholder="Add outcome (e.g., Proposal requested)"
+                  value={newOutcome}
+                  onChange={(e) => setNewOutcome(e.target.value)}
+                  onKeyDown={(e) =>
+                    e.key === "Enter" && (e.preventDefault(), addOutcome())
+                  }
+                />
+                <Button type="button" onClick={addOutcome} variant="outline">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {callOutcomes.map((outcome) => (
+                  <Badge
+                    key={outcome}
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => removeOutcome(outcome)}
+                  >
+                    {outcome}
+                    <Trash2 className="h-3 w-3 ml-1" />
+                  </Badge>
+                ))}
+              </div>
+              {outcomesError && (
+                <p className="mt-2 text-sm font-medium text-destructive">
+                  {outcomesError}
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* No-Show Policy */}
+        <Card>
+          <CardHeader>
+            <CardTitle>No-Show Policy</CardTitle>
+            <CardDescription>
+              What happens when a lead misses a scheduled call
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="no_show_policy.enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Handle No-Shows Automatically
+                    </FormLabel>
+                    <FormDescription>
+                      Also applies when a rep logs a call as a no-show
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {noShowEnabled && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="no_show_policy.grace_minutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Mark as No-Show After (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={5}
+                          max={240}
+                          className="w-32"
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(parseInt(e.target.value, 10))
+                          }
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Counted from the call's start, if no outcome has been
+                        logged by then
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="no_show_policy.send_rebook_message"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>Send a Re-Booking Message</FormLabel>
+                        <FormDescription>
+                          Sent over WhatsApp in the language of the lead's
+                          conversation
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {sendRebookMessage &&
+                  supportedLanguages.map((lang) => (
+                    <FormField
+                      key={lang}
+                      control={form.control}
+                      name={`no_show_policy.rebook_messages.${lang}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {getLanguageLabel(lang)} Message
+                          </FormLabel>
+                          <FormControl>
+                            <Textarea
+                              rows={3}
+                              {...field}
+                              value={field.value || ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                {sendRebookMessage && (
+                  <p className="text-sm text-muted-foreground">
+                    Leads in a language without a message get the primary
+                    language one.
+                  </p>
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="no_show_policy.return_to_agent"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>
+                          Hand the Conversation to the Agent
+                        </FormLabel>
+                        <FormDescription>
+                          Releases the chat from staff so the agent can offer
+                          new slots
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { UseFormReturn, useFieldArray } from "react-hook-form";
+import { Bot, ListPlus, Plus, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import type { CustomLeadFieldType, SalesConfigFormData } from "@/types";
+
+interface LeadFieldsTabProps {
+  form: UseFormReturn<SalesConfigFormData>;
+}
+
+const FIELD_TYPES: { value: CustomLeadFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Select" },
+  { value: "date", label: "Date" },
+  { value: "boolean", label: "Yes / No" },
+];
+
+// "Decision maker?" -> "decision_maker"
+const toFieldKey = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 40);
+
+function SelectOptionsEditor({
+  options,
+  onChange,
+}: {
+  options: string[];
+  onChange: (options: string[]) => void;
+}) {
+  const [newOption, setNewOption] = useState("");
+
+  const addOption = () => {
+    const option = newOption.trim();
+    if (!option || options.includes(option)) return;
+    onChange([...options, option]);
+    setNewOption("");
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <Input
+          placeholder="Add option"
+          value={newOption}
+          onChange={(e) => setNewOption(e.target.value)}
+          onKeyDown={(e) =>
+            e.key === "Enter" && (e.preventDefault(), addOption())
+          }
+        />
+        <Button type="button" onClick={addOption} variant="outline">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <Badge
+            key={option}
+            variant="secondary"
+            className="cursor-pointer"
+            onClick={() => onChange(options.filter((o) => o !== option))}
+          >
+            {option}
+            <Trash2 className="h-3 w-3 ml-1" />
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function LeadFieldsTab({ form }: LeadFieldsTabProps) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "custom_lead_fields",
+  });
+  const listError = form.formState.errors.custom_lead_fields?.root?.message;
+
+  const addField = () => {
+    append({
+      key: "",
+      label: "",
+      type: "text",
+      agent_collect: false,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium">Lead Fields</h3>
+            <p className="text-sm text-muted-foreground">
+              Extra fields your team tracks on every lead. They show up on the
+              lead card, in filters and in exports, and the agent can fill them
+              in while qualifying.
+            </p>
+          </div>
+          <Button type="button" onClick={addField} variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+
+        {listError && (
+          <p className="text-sm font-medium text-destructive">{listError}</p>
+        )}
+
+        <div className="space-y-4">
+          {fields.map((field, index) => {
+            const type = form.watch(`custom_lead_fields.${index}.type`);
+            const agentCollect = form.watch(
+              `custom_lead_fields.${index}.agent_collect`,
+            );
+
+            return (
+              <Card key={field.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <ListPlus className="h-4 w-4" />
+                      {form.watch(`custom_lead_fields.${index}.label`) ||
+                        `Field #${index + 1}`}
+                    </CardTitle>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <FormField
+                      control={form.control}
+                      name={`custom_lead_fields.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Label</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="Decision maker"
+                              {...field}
+                              onBlur={() => {
+                                field.onBlur();
+                                // Suggest a key for new fields only
+                                const keyPath =
+                                  `custom_lead_fields.${index}.key` as const;
+                                if (!form.getValues(keyPath)) {
+                                  form.setValue(
+                                    keyPath,
+                                    toFieldKey(field.value),
+                                  );
+                                }
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`custom_lead_fields.${index}.key`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Key</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="decision_maker"
+                              className="font-mono"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Renaming the key hides values already saved under
+                            the old one
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`custom_lead_fields.${index}.type`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Type</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={field.onChange}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {FIELD_TYPES.map((t) => (
+                                <SelectItem key={t.value} value={t.value}>
+                                  {t.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {type === "select" && (
+                    <FormField
+                      control={form.control}
+                      name={`custom_lead_fields.${index}.options`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Options</FormLabel>
+                          <SelectOptionsEditor
+                            options={field.value || []}
+                            onChange={field.onChange}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name={`custom_lead_fields.${index}.agent_collect`}
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="flex items-center gap-2">
+                            <Bot className="h-4 w-4" />
+                            Collected by the agent
+                          </FormLabel>
+                          <FormDescription>
+                            The agent asks for or picks up this value during
+                            qualification and saves it on the lead
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {agentCollect && (
+                    <FormField
+                      control={form.control}
+                      name={`custom_lead_fields.${index}.agent_instructions`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Instructions for the agent</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Find out whether the contact signs off on purchases. Don't ask directly if they already mentioned their role."
+                              {...field}
+                              value={field.value ?? ""}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {fields.length === 0 && (
+          <div className="rounded-lg border border-dashed p-8 text-center">
+            <ListPlus className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-muted-foreground">
+              No custom fields yet. Add fields for anything your team captures
+              beyond use case, stack, volume and timeline.
+            </p>
+          </div>
+        )}
+      </div>
+    </Form>
+  );
+}
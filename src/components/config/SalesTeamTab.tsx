@@ -192,7 +192,9 @@ export function SalesTeamTab({ form }: SalesTeamTabProps) {
                   <div>
                     <FormLabel>Timezone Regions Covered</FormLabel>
                     <FormDescription className="mb-2">
-                      Select which regions this rep can handle
+                      Select which regions this rep can handle. Calls are booked
+                      Monday to Friday, in working hours in the first selected
+                      region's time zone
                     </FormDescription>
                     <div className="flex flex-wrap gap-2">
                       {TIMEZONE_REGIONS.map((tz) => (
@@ -0,0 +1,136 @@
+import { format, formatDistanceToNow } from "date-fns";
+import { CalendarClock, Clock, Hand, Pause } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { getSlaState, type SlaState } from "@/lib/inbox";
+import { cn, formatPhone, truncate } from "@/lib/utils";
+import type { LeadWithSession } from "@/types";
+
+interface InboxListItemProps {
+  item: LeadWithSession;
+  isSelected: boolean;
+  autoReleaseHours: number;
+  now: number;
+  claimedByName?: string | null;
+  isClaimedByMe?: boolean;
+  onSelect: () => void;
+}
+
+const SLA_STYLES: Record<SlaState["tone"], string> = {
+  ok: "text-muted-foreground",
+  warning: "bg-amber-100 text-amber-800",
+  breached: "bg-red-100 text-red-800",
+};
+
+export function formatSlaRemaining(remainingMs: number) {
+  if (remainingMs <= 0) return "Auto-release due";
+  const totalMinutes = Math.ceil(remainingMs / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+}
+
+export function InboxListItem({
+  item,
+  isSelected,
+  autoReleaseHours,
+  now,
+  claimedByName,
+  isClaimedByMe,
+  onSelect,
+}: InboxListItemProps) {
+  const session = item.session!;
+  const sla = getSlaState(session, autoReleaseHours, now);
+  const isScheduledRelease =
+    session.scheduled_mode === "agent" && !!session.scheduled_at;
+
+  return (
+    <button
+      id={`inbox-${session.id}`}
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "w-full rounded-lg border-2 p-3 text-left transition-all hover:border-blue-300",
+        isSelected ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white",
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p
+            className={cn(
+              "truncate",
+              session.unread_count > 0 ? "font-semibold" : "font-medium",
+            )}
+          >
+            {item.contact_name || formatPhone(item.phone)}
+          </p>
+          {item.company_name && (
+            <p className="truncate text-sm text-muted-foreground">
+              {item.company_name}
+            </p>
+          )}
+        </div>
+        {session.unread_count > 0 && (
+          <Badge variant="destructive" className="text-xs">
+            {session.unread_count}
+          </Badge>
+        )}
+      </div>
+
+      {session.reason && (
+        <p className="mt-1 text-sm text-muted-foreground">
+          {truncate(session.reason, 80)}
+        </p>
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        {session.control_mode === "paused" ? (
+          <Badge variant="paused" className="gap-1">
+            <Pause className="h-3 w-3" />
+            {isScheduledRelease
+              ? `Paused until ${format(new Date(session.scheduled_at!), "EEE HH:mm")}`
+              : "Paused"}
+          </Badge>
+        ) : (
+          sla && (
+            <span
+              className={cn(
+                "inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-medium",
+                SLA_STYLES[sla.tone],
+              )}
+            >
+              {isScheduledRelease ? (
+                <CalendarClock className="h-3 w-3" />
+              ) : (
+                <Clock className="h-3 w-3" />
+              )}
+              {formatSlaRemaining(sla.remainingMs)}
+            </span>
+          )
+        )}
+        {session.escalated_at && (
+          <span className="text-muted-foreground">
+            waiting{" "}
+            {formatDistanceToNow(new Date(session.escalated_at), {
+              addSuffix: false,
+            })}
+          </span>
+        )}
+        <span
+          className={cn(
+            "ml-auto inline-flex items-center gap-1",
+            isClaimedByMe ? "text-primary" : "text-muted-foreground",
+          )}
+        >
+          {claimedByName ? (
+            <>
+              <Hand className="h-3 w-3" />
+              {isClaimedByMe ? "You" : claimedByName}
+            </>
+          ) : (
+            "Unclaimed"
+          )}
+        </span>
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1 @@
+export { InboxListItem, formatSlaRemaining } from "./InboxListItem";
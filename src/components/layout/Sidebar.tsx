@@ -9,6 +9,9 @@ import {
   Plug,
   UserPlus,
   Shield,
+  Inbox,
+  Search,
+  Phone,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -24,7 +27,10 @@ import { useAuthStore } from "@/stores/authStore";
 const baseNavigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
   { name: "Agent Config", href: "/agent-config", icon: Bot },
+  { name: "Inbox", href: "/inbox", icon: Inbox },
+  { name: "Search", href: "/search", icon: Search },
   { name: "Leads", href: "/leads", icon: Users },
+  { name: "Calls", href: "/calls", icon: Phone },
   { name: "Integrations", href: "/integrations", icon: Plug },
   { name: "Team", href: "/team", icon: UserPlus },
   { name: "Settings", href: "/settings", icon: Settings },
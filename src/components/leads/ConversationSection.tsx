@@ -1,10 +1,37 @@
-import { useEffect, useState } from "react";
-import { formatDistanceToNow, differenceInSeconds, addHours } from "date-fns";
+import { useEffect, useRef, useState } from "react";
+import {
+  addHours,
+  addMinutes,
+  differenceInSeconds,
+  format,
+  formatDistanceToNow,
+  isSameDay,
+  isToday,
+  isYesterday,
+} from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   User,
   Bot,
@@ -15,58 +42,194 @@ import {
   Clock,
   Plus,
   MessageSquare,
+  Check,
+  CheckCheck,
+  AlertCircle,
+  RotateCcw,
+  ChevronUp,
+  Wrench,
+  Hand,
+  Eye,
+  Download,
+  CalendarClock,
+  Pause,
+  Play,
+  ChevronDown,
 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
 import { supabase } from "@/lib/supabase";
+import { fetchMembers, sendStaffMessage } from "@/lib/api";
+import {
+  cancelScheduledChange,
+  claimSession,
+  getReleaseAt,
+  pauseSession,
+  scheduleControlMode,
+  takeOverSession,
+  unclaimSession,
+} from "@/lib/sessions";
+import { fetchSnippets } from "@/lib/snippets";
+import { setSessionTags } from "@/lib/tags";
+import { exportTranscript, type TranscriptFormat } from "@/lib/transcripts";
+import { cn, generateId, getInitials } from "@/lib/utils";
+import { MessageComposer } from "./MessageComposer";
+import {
+  ScheduleControlDialog,
+  type ScheduleKind,
+} from "./ScheduleControlDialog";
+import { TagPicker } from "./TagPicker";
 import type {
+  Tag,
   ConversationSession,
   ConversationMessage,
   ConversationControlMode,
+  ConversationViewer,
+  Lead,
+  MessageDeliveryStatus,
+  Snippet,
+  TeamMember,
 } from "@/types";
 
+const MESSAGES_PAGE_SIZE = 50;
+
+// Transcript order; the id breaks ties the same way paging does
+const byCreatedAt = (a: ConversationMessage, b: ConversationMessage) =>
+  a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+
 interface ConversationSectionProps {
   session: ConversationSession | null | undefined;
+  // Fills in snippet variables; absent for the session-only views
+  lead?: Lead;
   autoReleaseHours: number;
+  tags?: Tag[];
+  // Scroll to and highlight this message, loading history back to it
+  focusMessageId?: string;
   onEscalate: () => void;
   onRelease: () => void;
   onProlong: () => void;
+  onSessionUpdated?: (session: ConversationSession) => void;
   isLoading?: boolean;
 }
 
 export function ConversationSection({
   session,
+  lead,
   autoReleaseHours,
+  tags = [],
+  focusMessageId,
   onEscalate,
   onRelease,
   onProlong,
+  onSessionUpdated,
   isLoading: isActionLoading,
 }: ConversationSectionProps) {
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  // Staff replies sent from this panel, shown optimistically until confirmed
+  const [outgoing, setOutgoing] = useState<ConversationMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<string>("");
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [scheduleKind, setScheduleKind] = useState<ScheduleKind | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  // Focus targets already scrolled to, or whose history was already fetched
+  const jumpedTo = useRef<string | null>(null);
+  const fetchedThrough = useRef<string | null>(null);
+  // Session whose transcript is on screen; responses for any other are
+  // dropped so switching leads mid-fetch can't mix transcripts
+  const shownSessionId = useRef<string | null>(null);
+  const { organization, user, currentMembership } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [isClaiming, setIsClaiming] = useState(false);
+  // Teammates with this conversation open, excluding ourselves
+  const [viewers, setViewers] = useState<ConversationViewer[]>([]);
+  const presenceChannel = useRef<ReturnType<typeof supabase.channel> | null>(
+    null,
+  );
+  // Shown before a reply that might collide with a teammate's
+  const [collisionWarning, setCollisionWarning] = useState<string | null>(null);
+  const resolveCollision = useRef<((send: boolean) => void) | null>(null);
+  // Once confirmed, replying into someone else's claim doesn't ask again
+  const acknowledgedClaim = useRef<string | null>(null);
+
+  const me = currentMembership?.id;
+  const myName = user?.name || user?.email || "A teammate";
+  const isManager =
+    user?.role === "admin" || user?.role === "manager" || user?.is_superadmin;
+  const claimedBy = session?.claimed_by;
+  const isClaimedByMe = !!claimedBy && claimedBy === me;
+  const isClaimedByOther = !!claimedBy && !isClaimedByMe;
+  // Someone else owns this conversation; only managers may still act on it
+  const isLockedByOther = isClaimedByOther && !isManager;
+  const typingViewers = viewers.filter((v) => v.typing);
+
+  const snippetLanguages = config
+    ? [
+        config.primary_language,
+        ...config.supported_languages.filter(
+          (code) => code !== config.primary_language,
+        ),
+      ]
+    : [];
 
-  // Fetch messages and set up realtime subscription
+  const memberName = (id: string) => {
+    const member = members.find((m) => m.id === id);
+    return member?.name || member?.email || "a teammate";
+  };
+
+  // Fetch the latest page of messages and follow new ones in realtime
   useEffect(() => {
-    if (!session?.phone) {
-      setMessages([]);
-      return;
-    }
+    shownSessionId.current = session?.id ?? null;
+    setOutgoing([]);
+    setMessages([]);
+    setHasMore(false);
+    if (!session?.id) return;
 
     setIsLoading(true);
     fetchMessages();
 
-    // Subscribe to agent_sessions changes for this phone
     const channel = supabase
-      .channel(`agent_sessions_${session.phone}`)
+      .channel(`conversation_messages_${session.id}`)
       .on(
         "postgres_changes",
         {
-          event: "*",
+          event: "INSERT",
           schema: "agents",
-          table: "agent_sessions",
-          filter: `contact_phone=eq.${session.phone}`,
+          table: "conversation_messages",
+          filter: `session_id=eq.${session.id}`,
         },
-        () => {
-          fetchMessages();
+        (payload) => {
+          const inserted = payload.new as ConversationMessage;
+          setMessages((prev) =>
+            prev.some((m) => m.id === inserted.id) ? prev : [...prev, inserted],
+          );
+          // Drop the optimistic copy once the persisted row arrives
+          const clientId = inserted.metadata?.client_message_id;
+          if (clientId) {
+            setOutgoing((prev) => prev.filter((m) => m.id !== clientId));
+          }
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "agents",
+          table: "conversation_messages",
+          filter: `session_id=eq.${session.id}`,
+        },
+        (payload) => {
+          const updated = payload.new as ConversationMessage;
+          const applyUpdate = (prev: ConversationMessage[]) =>
+            prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m));
+          setMessages(applyUpdate);
+          setOutgoing(applyUpdate);
         },
       )
       .subscribe();
@@ -74,23 +237,75 @@ export function ConversationSection({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [session?.phone]);
+  }, [session?.id]);
+
+  useEffect(() => {
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, []);
+
+  // Snippets and the languages they're offered in
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    if (config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+    fetchSnippets(organization.id)
+      .then(setSnippets)
+      .catch((error) => {
+        console.error("Error fetching snippets:", error);
+      });
+  }, [organization?.id]);
+
+  // Share who has this conversation open, and who is typing, with teammates
+  useEffect(() => {
+    setViewers([]);
+    acknowledgedClaim.current = null;
+    if (!session?.id || !me) return;
+
+    const channel = supabase.channel(`conversation_presence_${session.id}`, {
+      config: { presence: { key: me } },
+    });
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<ConversationViewer>();
+        // A member with several tabs open has several entries
+        setViewers(
+          Object.entries(state)
+            .filter(([key, entries]) => key !== me && entries.length > 0)
+            .map(([, entries]) => ({
+              member_id: entries[0].member_id,
+              name: entries[0].name,
+              typing: entries.some((e) => e.typing),
+            })),
+        );
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          channel.track({ member_id: me, name: myName, typing: false });
+        }
+      });
+    presenceChannel.current = channel;
+
+    return () => {
+      presenceChannel.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [session?.id, me]);
 
   // Update countdown timer every second
   useEffect(() => {
-    if (
-      !session ||
-      session.control_mode !== "human" ||
-      !session.escalated_at ||
-      autoReleaseHours <= 0
-    ) {
+    const releaseAt = session ? getReleaseAt(session, autoReleaseHours) : null;
+    if (!releaseAt) {
       setTimeRemaining("");
       return;
     }
 
     const updateTimer = () => {
-      const escalatedAt = new Date(session.escalated_at!);
-      const releaseAt = addHours(escalatedAt, autoReleaseHours);
       const secondsRemaining = differenceInSeconds(releaseAt, new Date());
 
       if (secondsRemaining <= 0) {
@@ -114,64 +329,345 @@ export function ConversationSection({
     updateTimer();
     const interval = setInterval(updateTimer, 1000);
     return () => clearInterval(interval);
-  }, [session?.escalated_at, session?.control_mode, autoReleaseHours]);
+  }, [
+    session?.escalated_at,
+    session?.control_mode,
+    session?.scheduled_mode,
+    session?.scheduled_at,
+    autoReleaseHours,
+  ]);
+
+  // Messages are loaded newest-first in pages and kept in ascending order.
+  // Pages continue from the oldest loaded message by (created_at, id), as
+  // batched replies can share a timestamp.
+  const fetchMessages = async (before?: ConversationMessage) => {
+    if (!session?.id) return;
+    const sessionId = session.id;
+    try {
+      let query = supabase
+        .schema("agents")
+        .from("conversation_messages")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(MESSAGES_PAGE_SIZE);
+
+      if (before) {
+        query = query.or(
+          `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`,
+        );
+      }
+
+      const { data, error } = await query;
+      if (shownSessionId.current !== sessionId) return;
+      if (error) throw error;
 
-  const fetchMessages = async () => {
-    if (!session?.phone) return;
+      const page = ((data || []) as ConversationMessage[]).reverse();
+      setHasMore(page.length === MESSAGES_PAGE_SIZE);
+      // Merged rather than replaced: a jump to a focused message may have
+      // loaded part of the history already
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id));
+        return [...page.filter((m) => !known.has(m.id)), ...prev].sort(
+          byCreatedAt,
+        );
+      });
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+    } finally {
+      if (shownSessionId.current === sessionId) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    }
+  };
+
+  // Load everything from the given message onwards so it can be shown
+  const fetchMessagesThrough = async (messageId: string) => {
+    if (!session?.id) return;
+    const sessionId = session.id;
+    setIsLoadingMore(true);
     try {
-      // Messages are stored in agent_sessions.messages JSONB array
-      // Link is via contact_phone matching conversation_sessions.phone
+      const { data: target, error: targetError } = await supabase
+        .schema("agents")
+        .from("conversation_messages")
+        .select("created_at")
+        .eq("id", messageId)
+        .eq("session_id", sessionId)
+        .maybeSingle();
+      if (shownSessionId.current !== sessionId) return;
+      if (targetError) throw targetError;
+      if (!target) return;
+
       const { data, error } = await supabase
         .schema("agents")
-        .from("agent_sessions")
-        .select("messages")
-        .eq("contact_phone", session.phone)
-        .order("updated_at", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== "PGRST116") throw error; // PGRST116 = no rows
-
-      // Transform agent_sessions messages format to ConversationMessage format
-      // agent_sessions stores: {role: "user"|"assistant", content: string | [{type: "text", text: "..."}]}
-      const rawMessages = data?.messages || [];
-      const transformedMessages: ConversationMessage[] = rawMessages.map(
-        (
-          msg: {
-            role: string;
-            content: string | Array<{ type: string; text: string }>;
-          },
-          index: number,
-        ) => {
-          // Extract text content - can be string or array of content blocks
-          let textContent = "";
-          if (typeof msg.content === "string") {
-            textContent = msg.content;
-          } else if (Array.isArray(msg.content)) {
-            textContent = msg.content
-              .filter((block) => block.type === "text")
-              .map((block) => block.text)
-              .join("\n");
-          }
+        .from("conversation_messages")
+        .select("*")
+        .eq("session_id", sessionId)
+        .gte("created_at", target.created_at)
+        .order("created_at", { ascending: true });
+      if (shownSessionId.current !== sessionId) return;
+      if (error) throw error;
 
-          return {
-            id: `${session.id}-${index}`,
-            session_id: session.id,
-            content: textContent,
-            sender_type: msg.role === "user" ? "lead" : "agent",
-            created_at: session.created_at, // Approximate - no per-message timestamp
-          };
-        },
+      // Older history may still exist; "Load earlier" finds out
+      setHasMore(true);
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id));
+        return [
+          ...((data || []) as ConversationMessage[]).filter(
+            (m) => !known.has(m.id),
+          ),
+          ...prev,
+        ].sort(byCreatedAt);
+      });
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+    } finally {
+      if (shownSessionId.current === sessionId) setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!focusMessageId || isLoading || jumpedTo.current === focusMessageId) {
+      return;
+    }
+    if (messages.some((m) => m.id === focusMessageId)) {
+      jumpedTo.current = focusMessageId;
+      document
+        .getElementById(`message-${focusMessageId}`)
+        ?.scrollIntoView({ block: "center" });
+      setHighlightedId(focusMessageId);
+    } else if (fetchedThrough.current !== focusMessageId) {
+      fetchedThrough.current = focusMessageId;
+      fetchMessagesThrough(focusMessageId);
+    }
+  }, [focusMessageId, isLoading, messages.length]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  const handleLoadEarlier = () => {
+    if (messages.length === 0) return;
+    setIsLoadingMore(true);
+    fetchMessages(messages[0]);
+  };
+
+  const updateOutgoing = (
+    id: string,
+    changes: Partial<ConversationMessage>,
+  ): void => {
+    setOutgoing((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, ...changes } : m)),
+    );
+  };
+
+  const deliverMessage = async (pending: ConversationMessage) => {
+    if (!session) return;
+    try {
+      const sent = await sendStaffMessage(session.id, {
+        content: pending.content,
+        client_message_id: pending.id,
+      });
+      updateOutgoing(pending.id, {
+        ...sent,
+        delivery_status: sent.delivery_status || "sent",
+      });
+    } catch (error) {
+      console.error("Error sending message:", error);
+      updateOutgoing(pending.id, { delivery_status: "failed" });
+      toast.error(
+        error instanceof Error ? error.message : "Failed to send message",
       );
+    }
+  };
+
+  const handleTypingChange = (typing: boolean) => {
+    if (!me) return;
+    presenceChannel.current?.track({ member_id: me, name: myName, typing });
+  };
+
+  // Ask before replying while a teammate is typing or owns the conversation
+  const confirmSend = () => {
+    const claimWarning =
+      isClaimedByOther && acknowledgedClaim.current !== claimedBy
+        ? `${memberName(claimedBy!)} has claimed this conversation.`
+        : null;
+    const typingWarning =
+      typingViewers.length > 0
+        ? `${typingViewers.map((v) => v.name).join(", ")} ${
+            typingViewers.length === 1 ? "is" : "are"
+          } typing a reply right now.`
+        : null;
+    if (!claimWarning && !typingWarning) return Promise.resolve(true);
 
-      setMessages(transformedMessages);
+    setCollisionWarning(
+      [claimWarning, typingWarning].filter(Boolean).join(" "),
+    );
+    return new Promise<boolean>((resolve) => {
+      resolveCollision.current = (send) => {
+        if (send && claimWarning) acknowledgedClaim.current = claimedBy!;
+        resolve(send);
+      };
+    });
+  };
+
+  const handleCollisionResolved = (send: boolean) => {
+    resolveCollision.current?.(send);
+    resolveCollision.current = null;
+    setCollisionWarning(null);
+  };
+
+  const handleSendMessage = async (content: string) => {
+    if (!session) return;
+
+    // Replying to an unclaimed escalation makes it yours
+    if (session.control_mode === "human" && !session.claimed_by && me) {
+      claimSession(session, me, user)
+        .then((claimed) => onSessionUpdated?.(claimed))
+        .catch((error) => {
+          console.error("Error claiming conversation:", error);
+        });
+    }
+
+    const pending: ConversationMessage = {
+      id: `local-${generateId()}`,
+      session_id: session.id,
+      content,
+      sender_type: "staff",
+      delivery_status: "sending",
+      created_at: new Date().toISOString(),
+    };
+    setOutgoing((prev) => [...prev, pending]);
+    await deliverMessage(pending);
+  };
+
+  const handleRetry = (message: ConversationMessage) => {
+    updateOutgoing(message.id, { delivery_status: "sending" });
+    deliverMessage(message);
+  };
+
+  const handleTagsChange = async (tagIds: string[]) => {
+    if (!session) return;
+    try {
+      await setSessionTags(session.id, tagIds);
+      onSessionUpdated?.({ ...session, tag_ids: tagIds });
     } catch (error) {
-      console.error("Error fetching messages:", error);
+      console.error("Error updating conversation tags:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update tags",
+      );
+    }
+  };
+
+  const handleExport = async (fileFormat: TranscriptFormat) => {
+    if (!session) return;
+
+    setIsExporting(true);
+    try {
+      // Orphan sessions only have a stand-in lead built from the session
+      const realLead = lead?.id.startsWith("virtual-") ? undefined : lead;
+      await exportTranscript(session, realLead, fileFormat);
+    } catch (error) {
+      console.error("Error exporting transcript:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export transcript",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleToggleClaim = async () => {
+    if (!session || !me) return;
+
+    setIsClaiming(true);
+    try {
+      if (isClaimedByMe) {
+        onSessionUpdated?.(await unclaimSession(session, user));
+      } else if (isClaimedByOther) {
+        onSessionUpdated?.(await takeOverSession(session, me, user));
+        toast.success(`You took over from ${memberName(claimedBy!)}`);
+      } else {
+        onSessionUpdated?.(await claimSession(session, me, user));
+      }
+    } catch (error) {
+      console.error("Error updating claim:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update claim",
+      );
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const runScheduleAction = async (
+    action: (session: ConversationSession) => Promise<ConversationSession>,
+    errorMessage: string,
+  ) => {
+    if (!session) return;
+
+    setIsScheduling(true);
+    try {
+      onSessionUpdated?.(await action(session));
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+      throw error;
     } finally {
-      setIsLoading(false);
+      setIsScheduling(false);
     }
   };
 
+  // Extensions count from the current release time, scheduled or automatic
+  const handleExtend = (hours: number) => {
+    const releaseAt = session && getReleaseAt(session, autoReleaseHours);
+    runScheduleAction(
+      (s) =>
+        scheduleControlMode(
+          s,
+          "agent",
+          addHours(releaseAt || new Date(), hours),
+          user,
+        ),
+      "Failed to extend human control",
+    ).catch(() => {});
+  };
+
+  const handleScheduleConfirm = (at: Date) =>
+    scheduleKind === "pause"
+      ? runScheduleAction(
+          (s) => pauseSession(s, at, user),
+          "Failed to pause agent",
+        )
+      : runScheduleAction(
+          (s) => scheduleControlMode(s, "agent", at, user),
+          "Failed to schedule release",
+        );
+
+  const getScheduleLabel = (s: ConversationSession) => {
+    switch (s.scheduled_mode) {
+      case "human":
+        return "Escalates";
+      case "paused":
+        return "Agent pauses";
+      default:
+        return s.control_mode === "paused"
+          ? "Agent resumes"
+          : "Releases to agent";
+    }
+  };
+
+  // Fetched history wins over the optimistic copy once the backend has it
+  const fetchedIds = new Set(messages.map((m) => m.id));
+  const transcript = [
+    ...messages,
+    ...outgoing.filter((m) => !fetchedIds.has(m.id)),
+  ];
+
   const getControlModeVariant = (mode: ConversationControlMode) => {
     switch (mode) {
       case "human":
@@ -217,10 +713,46 @@ export function ConversationSection({
             <MessageSquare className="h-5 w-5" />
             Conversation
           </CardTitle>
-          <Badge variant={getControlModeVariant(session.control_mode)}>
-            {getControlModeLabel(session.control_mode)}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant={getControlModeVariant(session.control_mode)}>
+              {getControlModeLabel(session.control_mode)}
+            </Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={isExporting}
+                  title="Export transcript"
+                >
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("pdf")}>
+                  PDF (print)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("html")}>
+                  HTML
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("json")}>
+                  JSON (raw)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
+        <TagPicker
+          tags={tags}
+          value={session.tag_ids}
+          onChange={handleTagsChange}
+          disabled={!onSessionUpdated}
+        />
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Escalation Reason */}
@@ -243,12 +775,114 @@ export function ConversationSection({
           </div>
         )}
 
+        {/* Scheduled Change */}
+        {session.scheduled_mode && session.scheduled_at && (
+          <div className="flex items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="flex items-center gap-2 text-sm text-blue-800">
+              <CalendarClock className="h-4 w-4 shrink-0 text-blue-600" />
+              <span>
+                <span className="font-medium">
+                  {getScheduleLabel(session)}{" "}
+                  {format(new Date(session.scheduled_at), "EEE d MMM, HH:mm")}
+                </span>
+                {session.scheduled_by_name &&
+                  ` · scheduled by ${session.scheduled_by_name}`}
+              </span>
+            </p>
+            {onSessionUpdated && !isLockedByOther && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  runScheduleAction(
+                    (s) => cancelScheduledChange(s, user),
+                    "Failed to cancel scheduled change",
+                  ).catch(() => {})
+                }
+                disabled={isScheduling}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Ownership */}
+        {session.control_mode !== "agent" && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+            <p
+              className={cn(
+                "flex items-center gap-2 text-sm",
+                !claimedBy && "text-muted-foreground",
+              )}
+            >
+              <Hand className="h-4 w-4 shrink-0" />
+              {claimedBy ? (
+                <span>
+                  {isClaimedByMe ? "You are" : `${memberName(claimedBy)} is`}{" "}
+                  handling this
+                  {session.claimed_at &&
+                    ` since ${formatDistanceToNow(
+                      new Date(session.claimed_at),
+                      { addSuffix: true },
+                    )}`}
+                </span>
+              ) : (
+                "Nobody has claimed this conversation yet"
+              )}
+            </p>
+            {me && onSessionUpdated && !isLockedByOther && (
+              <Button
+                size="sm"
+                variant={claimedBy ? "outline" : "default"}
+                onClick={handleToggleClaim}
+                disabled={isClaiming}
+              >
+                {isClaiming && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                {!claimedBy ? "Claim" : isClaimedByMe ? "Unclaim" : "Take over"}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Teammates viewing */}
+        {viewers.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Eye className="h-4 w-4" />
+            <div className="flex -space-x-2">
+              {viewers.map((viewer) => (
+                <Avatar
+                  key={viewer.member_id}
+                  className={cn(
+                    "h-6 w-6 border-2 border-background",
+                    viewer.typing && "ring-2 ring-green-500",
+                  )}
+                  title={viewer.name}
+                >
+                  <AvatarFallback className="text-[10px]">
+                    {getInitials(viewer.name)}
+                  </AvatarFallback>
+                </Avatar>
+              ))}
+            </div>
+            <span>
+              {typingViewers.length > 0
+                ? `${typingViewers.map((v) => v.name).join(", ")} ${
+                    typingViewers.length === 1 ? "is" : "are"
+                  } typing...`
+                : `${viewers.map((v) => v.name).join(", ")} also viewing`}
+            </span>
+          </div>
+        )}
+
         {/* Escalation Controls */}
         <div className="flex gap-2">
           {session.control_mode === "agent" && (
             <Button
               onClick={onEscalate}
-              disabled={isActionLoading}
+              disabled={isActionLoading || isLockedByOther}
               variant="destructive"
               className="flex-1"
             >
@@ -261,11 +895,38 @@ export function ConversationSection({
             </Button>
           )}
 
+          {session.control_mode === "agent" && onSessionUpdated && (
+            <Button
+              onClick={() => setScheduleKind("pause")}
+              disabled={isActionLoading || isScheduling || isLockedByOther}
+              variant="outline"
+            >
+              <Pause className="h-4 w-4 mr-2" />
+              Pause
+            </Button>
+          )}
+
+          {session.control_mode === "paused" && (
+            <Button
+              onClick={onRelease}
+              disabled={isActionLoading || isLockedByOther}
+              variant="outline"
+              className="flex-1"
+            >
+              {isActionLoading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Resume Agent
+            </Button>
+          )}
+
           {session.control_mode === "human" && (
             <>
               <Button
                 onClick={onRelease}
-                disabled={isActionLoading}
+                disabled={isActionLoading || isLockedByOther}
                 variant="outline"
                 className="flex-1"
               >
@@ -276,15 +937,65 @@ export function ConversationSection({
                 )}
                 Release to Agent
               </Button>
-              <Button
-                onClick={onProlong}
-                disabled={isActionLoading}
-                variant="secondary"
-                title={`Extend by ${autoReleaseHours} hours`}
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                {autoReleaseHours}h
-              </Button>
+              {onSessionUpdated ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      disabled={
+                        isActionLoading || isScheduling || isLockedByOther
+                      }
+                      variant="secondary"
+                      title="Extend or schedule the release"
+                    >
+                      <Clock className="h-4 w-4 mr-1" />
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={onProlong}>
+                      Restart {autoReleaseHours}h window
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExtend(1)}>
+                      Extend by 1 hour
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExtend(4)}>
+                      Extend by 4 hours
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() =>
+                        runScheduleAction(
+                          (s) =>
+                            scheduleControlMode(
+                              s,
+                              "agent",
+                              addMinutes(new Date(), 30),
+                              user,
+                            ),
+                          "Failed to schedule release",
+                        ).catch(() => {})
+                      }
+                    >
+                      Release in 30 minutes
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setScheduleKind("release")}
+                    >
+                      Release at...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <Button
+                  onClick={onProlong}
+                  disabled={isActionLoading || isLockedByOther}
+                  variant="secondary"
+                  title={`Extend by ${autoReleaseHours} hours`}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {autoReleaseHours}h
+                </Button>
+              )}
             </>
           )}
         </div>
@@ -292,7 +1003,7 @@ export function ConversationSection({
         {/* Message History */}
         <div className="border-t pt-4">
           <p className="text-sm font-medium text-muted-foreground mb-3">
-            Message History ({messages.length} messages)
+            Message History ({transcript.length} messages)
           </p>
           {isLoading ? (
             <div className="space-y-4">
@@ -303,10 +1014,43 @@ export function ConversationSection({
           ) : (
             <ScrollArea className="h-[300px] pr-4">
               <div className="space-y-4">
-                {messages.length > 0 ? (
-                  messages.map((message) => (
-                    <MessageBubble key={message.id} message={message} />
-                  ))
+                {hasMore && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleLoadEarlier}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <ChevronUp className="h-4 w-4 mr-2" />
+                      )}
+                      Load earlier messages
+                    </Button>
+                  </div>
+                )}
+                {transcript.length > 0 ? (
+                  transcript.map((message, index) => {
+                    const previous = transcript[index - 1];
+                    const showDay =
+                      !previous ||
+                      !isSameDay(
+                        new Date(previous.created_at),
+                        new Date(message.created_at),
+                      );
+                    return (
+                      <div key={message.id} className="space-y-4">
+                        {showDay && <DaySeparator date={message.created_at} />}
+                        <MessageBubble
+                          message={message}
+                          isHighlighted={message.id === highlightedId}
+                          onRetry={handleRetry}
+                        />
+                      </div>
+                    );
+                  })
                 ) : (
                   <p className="text-center text-muted-foreground py-8">
                     No messages yet
@@ -316,12 +1060,126 @@ export function ConversationSection({
             </ScrollArea>
           )}
         </div>
+
+        {/* Staff Reply */}
+        <div className="border-t pt-4">
+          <MessageComposer
+            onSend={handleSendMessage}
+            disabled={session.control_mode === "agent"}
+            disabledReason="The agent is handling this conversation. Escalate to reply."
+            confirmSend={confirmSend}
+            onTypingChange={handleTypingChange}
+            snippets={snippets}
+            snippetVariables={{
+              contact_name: lead?.contact_name ?? session.lead?.contact_name,
+              company_name: lead?.company_name ?? session.lead?.company_name,
+              agent_name: user?.name,
+            }}
+            languages={snippetLanguages}
+          />
+        </div>
       </CardContent>
+
+      <AlertDialog
+        open={!!collisionWarning}
+        onOpenChange={(open) => !open && handleCollisionResolved(false)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send anyway?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {collisionWarning} Your reply may cross theirs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep draft</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleCollisionResolved(true)}>
+              Send
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ScheduleControlDialog
+        open={!!scheduleKind}
+        onOpenChange={(open) => !open && setScheduleKind(null)}
+        kind={scheduleKind ?? "release"}
+        onConfirm={handleScheduleConfirm}
+      />
     </Card>
   );
 }
 
-function MessageBubble({ message }: { message: ConversationMessage }) {
+function DaySeparator({ date }: { date: string }) {
+  const day = new Date(date);
+  const label = isToday(day)
+    ? "Today"
+    : isYesterday(day)
+      ? "Yesterday"
+      : format(day, "EEEE, MMM d, yyyy");
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="h-px flex-1 bg-border" />
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <div className="h-px flex-1 bg-border" />
+    </div>
+  );
+}
+
+function DeliveryStatus({
+  status,
+  onRetry,
+}: {
+  status: MessageDeliveryStatus;
+  onRetry: () => void;
+}) {
+  switch (status) {
+    case "sending":
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Sending
+        </span>
+      );
+    case "sent":
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Check className="h-3 w-3" />
+          Sent
+        </span>
+      );
+    case "delivered":
+      return (
+        <span className="flex items-center gap-1 text-xs text-green-700">
+          <CheckCheck className="h-3 w-3" />
+          Delivered
+        </span>
+      );
+    case "failed":
+      return (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="flex items-center gap-1 text-xs text-destructive hover:underline"
+        >
+          <AlertCircle className="h-3 w-3" />
+          Failed - retry
+          <RotateCcw className="h-3 w-3" />
+        </button>
+      );
+  }
+}
+
+function MessageBubble({
+  message,
+  isHighlighted,
+  onRetry,
+}: {
+  message: ConversationMessage;
+  isHighlighted?: boolean;
+  onRetry: (message: ConversationMessage) => void;
+}) {
   const isLead = message.sender_type === "lead";
   const isStaff = message.sender_type === "staff";
 
@@ -332,11 +1190,14 @@ function MessageBubble({ message }: { message: ConversationMessage }) {
   };
 
   const getSenderLabel = () => {
+    if (message.sender_name) return message.sender_name;
     if (isLead) return "Lead";
     if (isStaff) return "Staff";
     return "Agent";
   };
 
+  const toolCalls = message.metadata?.tool_calls ?? [];
+
   const getSenderColor = () => {
     if (isLead) return "bg-blue-100 text-blue-800";
     if (isStaff) return "bg-green-100 text-green-800";
@@ -350,7 +1211,14 @@ function MessageBubble({ message }: { message: ConversationMessage }) {
   };
 
   return (
-    <div className={`flex gap-3 ${isLead ? "flex-row-reverse" : "flex-row"}`}>
+    <div
+      id={`message-${message.id}`}
+      className={cn(
+        "flex gap-3 rounded-lg transition-colors",
+        isLead ? "flex-row-reverse" : "flex-row",
+        isHighlighted && "bg-yellow-50 ring-2 ring-yellow-300",
+      )}
+    >
       <div className="flex-shrink-0">
         <div className={`rounded-full p-2 ${getSenderColor()}`}>
           {getSenderIcon()}
@@ -363,17 +1231,41 @@ function MessageBubble({ message }: { message: ConversationMessage }) {
           <Badge variant="outline" className={getSenderColor()}>
             {getSenderLabel()}
           </Badge>
-          <span className="text-xs text-muted-foreground">
-            {formatDistanceToNow(new Date(message.created_at), {
-              addSuffix: true,
-            })}
+          <span
+            className="text-xs text-muted-foreground"
+            title={format(new Date(message.created_at), "PPpp")}
+          >
+            {format(new Date(message.created_at), "HH:mm")}
           </span>
         </div>
-        <div className={`rounded-lg border p-3 ${getBubbleStyle()}`}>
-          <p className="text-sm whitespace-pre-wrap break-words">
-            {message.content}
-          </p>
-        </div>
+        {message.content && (
+          <div className={`rounded-lg border p-3 ${getBubbleStyle()}`}>
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {message.content}
+            </p>
+          </div>
+        )}
+        {toolCalls.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {toolCalls.map((call, index) => (
+              <span
+                key={`${call.name}-${index}`}
+                className="inline-flex items-center gap-1 rounded-md bg-muted px-2 py-0.5 text-xs font-mono text-muted-foreground"
+              >
+                <Wrench className="h-3 w-3" />
+                {call.name}
+              </span>
+            ))}
+          </div>
+        )}
+        {isStaff && message.delivery_status && (
+          <div className="mt-1">
+            <DeliveryStatus
+              status={message.delivery_status}
+              onRetry={() => onRetry(message)}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CustomLeadField, CustomLeadFieldValue } from "@/types";
+
+interface CustomFieldInputProps {
+  field: CustomLeadField;
+  value: CustomLeadFieldValue | undefined;
+  onChange: (value: CustomLeadFieldValue) => void;
+  onBlur?: () => void;
+}
+
+// Radix Select can't hold an empty value
+const NO_VALUE = "__none__";
+
+// Input for one org-defined lead field; empty inputs produce null
+export function CustomFieldInput({
+  field,
+  value,
+  onChange,
+  onBlur,
+}: CustomFieldInputProps) {
+  switch (field.type) {
+    case "boolean":
+      return (
+        <div className="flex h-10 items-center">
+          <Switch checked={value === true} onCheckedChange={onChange} />
+        </div>
+      );
+    case "select":
+      return (
+        <Select
+          value={value ? String(value) : NO_VALUE}
+          onValueChange={(next) => onChange(next === NO_VALUE ? null : next)}
+        >
+          <SelectTrigger onBlur={onBlur}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>—</SelectItem>
+            {(field.options || []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "number":
+      return (
+        <Input
+          type="number"
+          value={value === null || value === undefined ? "" : String(value)}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+          onBlur={onBlur}
+        />
+      );
+    default:
+      return (
+        <Input
+          type={field.type === "date" ? "date" : "text"}
+          value={value === null || value === undefined ? "" : String(value)}
+          onChange={(e) => onChange(e.target.value || null)}
+          onBlur={onBlur}
+        />
+      );
+  }
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { fetchMembers } from "@/lib/api";
+import { updateLead } from "@/lib/leads";
+import type { Lead, TeamMember } from "@/types";
+
+interface LeadAssigneeSelectProps {
+  lead: Lead;
+  onAssigned: (lead: Lead) => void;
+}
+
+const UNASSIGNED = "unassigned";
+
+export function LeadAssigneeSelect({
+  lead,
+  onAssigned,
+}: LeadAssigneeSelectProps) {
+  const { user, currentMembership } = useAuthStore();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const isVirtual = lead.id.startsWith("virtual-");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMembers()
+      .then((data) => {
+        if (!cancelled) setMembers(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const memberLabel = (member: TeamMember) =>
+    member.name || member.email || "Unnamed member";
+
+  const handleChange = async (value: string) => {
+    const assignedRepId = value === UNASSIGNED ? null : value;
+    if (assignedRepId === (lead.assigned_rep_id ?? null)) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await updateLead(
+        lead,
+        { assigned_rep_id: assignedRepId },
+        user,
+      );
+      const member = members.find((m) => m.id === assignedRepId);
+      toast.success(
+        member ? `Assigned to ${memberLabel(member)}` : "Lead unassigned",
+      );
+      onAssigned(saved);
+    } catch (error) {
+      console.error("Error assigning lead:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to assign lead",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <UserCheck className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">Assigned to</span>
+      <Select
+        value={lead.assigned_rep_id || UNASSIGNED}
+        onValueChange={handleChange}
+        disabled={isVirtual || isLoading || isSaving}
+      >
+        <SelectTrigger className="h-8 w-48">
+          <SelectValue placeholder={isLoading ? "Loading..." : "Unassigned"} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {memberLabel(member)}
+              {member.id === currentMembership?.id && " (you)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
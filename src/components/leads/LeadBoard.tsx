@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Flame, Thermometer, Snowflake, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn, formatPhone } from "@/lib/utils";
+import type { LeadWithSession } from "@/types";
+import type { QualificationScore, LeadStatus } from "@/types/salesConfig";
+
+// Pipeline order - one board column per status
+export const LEAD_STATUS_COLUMNS: { status: LeadStatus; label: string }[] = [
+  { status: "new", label: "New" },
+  { status: "qualified", label: "Qualified" },
+  { status: "scheduled", label: "Scheduled" },
+  { status: "converted", label: "Converted" },
+  { status: "lost", label: "Lost" },
+];
+
+// Scores broken down in each column header
+export const BOARD_SCORES = ["hot", "warm", "cold"] as const;
+
+export interface LeadBoardColumn {
+  leads: LeadWithSession[];
+  total: number;
+  // Per-score totals for the whole column, not just the leads loaded
+  scoreCounts: Partial<Record<QualificationScore, number>>;
+}
+
+export type LeadBoardColumns = Record<LeadStatus, LeadBoardColumn>;
+
+interface LeadBoardProps {
+  columns: LeadBoardColumns | null;
+  selectedLeadId?: string;
+  onSelectLead: (lead: LeadWithSession) => void;
+  onMoveLead: (lead: LeadWithSession, status: LeadStatus) => void;
+}
+
+export function LeadBoard({
+  columns,
+  selectedLeadId,
+  onSelectLead,
+  onMoveLead,
+}: LeadBoardProps) {
+  const [draggedLead, setDraggedLead] = useState<LeadWithSession | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null);
+
+  const getScoreIcon = (score: QualificationScore) => {
+    switch (score) {
+      case "hot":
+        return <Flame className="h-3 w-3" />;
+      case "warm":
+        return <Thermometer className="h-3 w-3" />;
+      case "cold":
+        return <Snowflake className="h-3 w-3" />;
+      default:
+        return null;
+    }
+  };
+
+  const getScoreBadgeVariant = (score: QualificationScore) => {
+    switch (score) {
+      case "hot":
+        return "hot" as const;
+      case "warm":
+        return "warm" as const;
+      case "cold":
+        return "cold" as const;
+      default:
+        return "secondary" as const;
+    }
+  };
+
+  // Score breakdown chips shown in each column header
+  const getScoreCounts = (column: LeadBoardColumn) =>
+    BOARD_SCORES.map((score) => ({
+      score,
+      count: column.scoreCounts[score] ?? 0,
+    })).filter((s) => s.count > 0);
+
+  const handleDrop = (status: LeadStatus) => {
+    setDropTarget(null);
+    if (draggedLead && draggedLead.status !== status) {
+      onMoveLead(draggedLead, status);
+    }
+    setDraggedLead(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {LEAD_STATUS_COLUMNS.map(({ status, label }) => {
+        const column = columns?.[status];
+
+        return (
+          <div
+            key={status}
+            className={cn(
+              "flex w-72 flex-shrink-0 flex-col rounded-lg border bg-muted/40 transition-colors",
+              dropTarget === status && "border-blue-500 bg-blue-50",
+            )}
+            onDragOver={(e) => {
+              if (!draggedLead) return;
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+          >
+            {/* Column Header */}
+            <div className="border-b p-3">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">{label}</span>
+                <Badge variant="secondary">{column?.total ?? 0}</Badge>
+              </div>
+              {column && (
+                <div className="mt-2 flex gap-1">
+                  {getScoreCounts(column).map(({ score, count }) => (
+                    <Badge
+                      key={score}
+                      variant={getScoreBadgeVariant(score)}
+                      className="gap-1 px-1.5 text-[10px]"
+                    >
+                      {getScoreIcon(score)}
+                      {count}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Cards */}
+            <div className="flex-1 space-y-2 overflow-y-auto p-2 max-h-[600px]">
+              {!column ? (
+                [...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-20 w-full" />
+                ))
+              ) : column.leads.length === 0 ? (
+                <p className="py-6 text-center text-xs text-muted-foreground">
+                  No leads
+                </p>
+              ) : (
+                column.leads.map((lead) => {
+                  // Orphan sessions have no lead row to update yet
+                  const isVirtual = lead.id.startsWith("virtual-");
+
+                  return (
+                    <div
+                      key={lead.id}
+                      draggable={!isVirtual}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        setDraggedLead(lead);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedLead(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => onSelectLead(lead)}
+                      title={
+                        isVirtual
+                          ? "This conversation has no lead record yet"
+                          : undefined
+                      }
+                      className={cn(
+                        "rounded-md border-2 bg-white p-3 text-sm transition-all hover:border-blue-300",
+                        isVirtual ? "cursor-pointer" : "cursor-grab",
+                        selectedLeadId === lead.id
+                          ? "border-blue-500"
+                          : "border-transparent shadow-sm",
+                        draggedLead?.id === lead.id && "opacity-50",
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            {lead.contact_name || "Unknown"}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {lead.company_name || formatPhone(lead.phone)}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={getScoreBadgeVariant(
+                            lead.qualification_score,
+                          )}
+                          className="gap-1 px-1.5 text-[10px]"
+                        >
+                          {getScoreIcon(lead.qualification_score)}
+                          {lead.qualification_score}
+                        </Badge>
+                      </div>
+                      <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                          {formatDistanceToNow(
+                            new Date(
+                              lead.session?.updated_at || lead.updated_at,
+                            ),
+                            { addSuffix: true },
+                          )}
+                        </span>
+                        {lead.session && lead.session.unread_count > 0 && (
+                          <span className="flex items-center gap-1 text-destructive">
+                            <MessageSquare className="h-3 w-3" />
+                            {lead.session.unread_count}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              {column && column.total > column.leads.length && (
+                <p className="pt-1 text-center text-xs text-muted-foreground">
+                  +{column.total - column.leads.length} more - refine filters to
+                  see them
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Loader2, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchMembers } from "@/lib/api";
+import type {
+  LeadBulkUpdates,
+  LeadStatus,
+  QualificationScore,
+  Tag,
+  TeamMember,
+} from "@/types";
+
+interface LeadBulkActionBarProps {
+  count: number;
+  isWorking: boolean;
+  tags?: Tag[];
+  onUpdate: (updates: LeadBulkUpdates) => void;
+  onTag?: (tagId: string, add: boolean) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const UNASSIGNED = "unassigned";
+// Tag select values are "add:<id>" or "remove:<id>"
+const TAG_ADD = "add:";
+const TAG_REMOVE = "remove:";
+
+export function LeadBulkActionBar({
+  count,
+  isWorking,
+  tags = [],
+  onUpdate,
+  onTag,
+  onDelete,
+  onClear,
+}: LeadBulkActionBarProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+
+  useEffect(() => {
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, []);
+
+  // Selects act as one-shot actions, so they never hold a value
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-2 mb-4">
+      <span className="text-sm font-medium px-2">{count} selected</span>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          onUpdate({ qualification_score: value as QualificationScore })
+        }
+        disabled={isWorking}
+      >
+        <SelectTrigger className="h-8 w-28">
+          <SelectValue placeholder="Score" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="hot">Hot</SelectItem>
+          <SelectItem value="warm">Warm</SelectItem>
+          <SelectItem value="cold">Cold</SelectItem>
+          <SelectItem value="new">New</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) => onUpdate({ status: value as LeadStatus })}
+        disabled={isWorking}
+      >
+        <SelectTrigger className="h-8 w-32">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="new">New</SelectItem>
+          <SelectItem value="qualified">Qualified</SelectItem>
+          <SelectItem value="scheduled">Scheduled</SelectItem>
+          <SelectItem value="converted">Converted</SelectItem>
+          <SelectItem value="lost">Lost</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          onUpdate({ assigned_rep_id: value === UNASSIGNED ? null : value })
+        }
+        disabled={isWorking}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue placeholder="Assign to" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.name || member.email || "Unnamed member"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {onTag && tags.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(value) =>
+            value.startsWith(TAG_ADD)
+              ? onTag(value.slice(TAG_ADD.length), true)
+              : onTag(value.slice(TAG_REMOVE.length), false)
+          }
+          disabled={isWorking}
+        >
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Add tag</SelectLabel>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={`${TAG_ADD}${tag.id}`}>
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                    />
+                    {tag.name}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>Remove tag</SelectLabel>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={`${TAG_REMOVE}${tag.id}`}>
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                    />
+                    {tag.name}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 text-destructive hover:text-destructive"
+        onClick={onDelete}
+        disabled={isWorking}
+      >
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+      </Button>
+
+      <div className="ml-auto flex items-center gap-1">
+        {isWorking && (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onClear}
+          title="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { CalendarPlus, Loader2, Phone } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { syncCallCalendarEvent } from "@/lib/api";
+import { cancelCall } from "@/lib/calls";
+import { fetchLeadCalls } from "@/lib/leads";
+import { formatDateTime } from "@/lib/utils";
+import { BookCallDialog, CallStatusBadge } from "@/components/calls";
+import type { CallWithLead, DiscoveryCall, Lead } from "@/types";
+
+interface LeadCallsProps {
+  lead: Lead;
+  onLeadUpdated?: (lead: Lead) => void;
+}
+
+export function LeadCalls({ lead, onLeadUpdated }: LeadCallsProps) {
+  const { config } = useSalesConfigStore();
+  const [calls, setCalls] = useState<DiscoveryCall[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBooking, setIsBooking] = useState(false);
+  const [callToMove, setCallToMove] = useState<DiscoveryCall | null>(null);
+  const [callToCancel, setCallToCancel] = useState<DiscoveryCall | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const repName = (id: string) => {
+    const rep = config?.sales_reps?.find((r) => r.id === id);
+    return rep?.name || rep?.email;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchLeadCalls(lead.id)
+      .then((data) => {
+        if (!cancelled) setCalls(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching lead calls:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lead.id]);
+
+  const handleSaved = ({ lead: savedLead, ...call }: CallWithLead) => {
+    setCalls((prev) =>
+      [call, ...prev.filter((c) => c.id !== call.id)].sort((a, b) =>
+        b.scheduled_at.localeCompare(a.scheduled_at),
+      ),
+    );
+    if (savedLead && savedLead.status !== lead.status) {
+      onLeadUpdated?.(savedLead);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!callToCancel) return;
+
+    setIsCancelling(true);
+    try {
+      let cancelledCall = await cancelCall(callToCancel);
+      try {
+        cancelledCall = await syncCallCalendarEvent(cancelledCall.id);
+      } catch (error) {
+        console.error("Error removing calendar event:", error);
+        toast.warning(
+          "The call was cancelled, but the calendar event couldn't be removed",
+        );
+      }
+      setCalls((prev) =>
+        prev.map((c) => (c.id === cancelledCall.id ? cancelledCall : c)),
+      );
+      toast.success("Call cancelled");
+      setCallToCancel(null);
+    } catch (error) {
+      console.error("Error cancelling call:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to cancel call",
+      );
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : calls.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No calls booked yet</p>
+      ) : (
+        <div className="space-y-2">
+          {calls.map((call) => (
+            <div
+              key={call.id}
+              className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="font-medium">
+                    {formatDateTime(call.scheduled_at)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {call.duration_minutes} min
+                    {repName(call.rep_id) && ` with ${repName(call.rep_id)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {call.status === "scheduled" && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCallToMove(call)}
+                    >
+                      Reschedule
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setCallToCancel(call)}
+                    >
+                      Cancel
+                    </Button>
+                  </>
+                )}
+                <CallStatusBadge status={call.status} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => setIsBooking(true)}>
+        <CalendarPlus className="h-4 w-4 mr-2" />
+        Book call
+      </Button>
+
+      <BookCallDialog
+        lead={lead}
+        call={callToMove}
+        open={isBooking || !!callToMove}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsBooking(false);
+            setCallToMove(null);
+          }
+        }}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={!!callToCancel}
+        onOpenChange={(open) => !open && setCallToCancel(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this call?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {callToCancel &&
+                `The call on ${formatDateTime(
+                  callToCancel.scheduled_at,
+                )} is cancelled and removed from the rep's calendar.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCancelling}>
+              Keep call
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleCancel();
+              }}
+              disabled={isCancelling}
+            >
+              {isCancelling && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Cancel call
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,35 +1,111 @@
+import { CalendarClock, History, StickyNote } from "lucide-react";
 import { LeadInfoCard } from "./LeadInfoCard";
 import { ConversationSection } from "./ConversationSection";
-import type { LeadWithSession } from "@/types";
+import { LeadTimeline } from "./LeadTimeline";
+import { LeadNotes } from "./LeadNotes";
+import { LeadCalls } from "./LeadCalls";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type {
+  ConversationSession,
+  CustomLeadField,
+  Lead,
+  LeadWithSession,
+  Tag,
+} from "@/types";
 
 interface LeadDetailPanelProps {
   lead: LeadWithSession;
   autoReleaseHours: number;
+  customFields?: CustomLeadField[];
+  tags?: Tag[];
+  focusMessageId?: string;
   onEscalate: () => void;
   onRelease: () => void;
   onProlong: () => void;
+  onLeadUpdated?: (lead: Lead) => void;
+  onSessionUpdated?: (session: ConversationSession) => void;
   isLoading?: boolean;
 }
 
 export function LeadDetailPanel({
   lead,
   autoReleaseHours,
+  customFields,
+  tags,
+  focusMessageId,
   onEscalate,
   onRelease,
   onProlong,
+  onLeadUpdated,
+  onSessionUpdated,
   isLoading,
 }: LeadDetailPanelProps) {
   return (
     <div className="space-y-4">
-      <LeadInfoCard lead={lead} />
+      <LeadInfoCard
+        lead={lead}
+        customFields={customFields}
+        tags={tags}
+        onLeadUpdated={onLeadUpdated}
+      />
       <ConversationSection
         session={lead.session}
+        lead={lead}
         autoReleaseHours={autoReleaseHours}
+        tags={tags}
+        focusMessageId={focusMessageId}
         onEscalate={onEscalate}
         onRelease={onRelease}
         onProlong={onProlong}
+        onSessionUpdated={onSessionUpdated}
         isLoading={isLoading}
       />
+      {/* Orphan sessions have no lead row to hang notes on */}
+      {!lead.id.startsWith("virtual-") && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <StickyNote className="h-5 w-5" />
+              Internal Notes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LeadNotes lead={lead} />
+          </CardContent>
+        </Card>
+      )}
+      {!lead.id.startsWith("virtual-") && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Discovery Calls
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <LeadCalls lead={lead} onLeadUpdated={onLeadUpdated} />
+          </CardContent>
+        </Card>
+      )}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Activity
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LeadTimeline
+            lead={lead}
+            customFields={customFields}
+            refreshKey={[
+              lead.updated_at,
+              lead.session?.control_mode,
+              lead.session?.escalated_at,
+            ].join("|")}
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 }
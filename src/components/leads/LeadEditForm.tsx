@@ -0,0 +1,235 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { createLead, updateLead } from "@/lib/leads";
+import { leadUpdateSchema, type LeadUpdate } from "@/schemas/lead";
+import { CustomFieldInput } from "./CustomFieldInput";
+import type { CustomLeadField, Lead, LeadWithSession } from "@/types";
+
+interface LeadEditFormProps {
+  lead: LeadWithSession;
+  customFields?: CustomLeadField[];
+  onSaved: (lead: Lead) => void;
+  onCancel: () => void;
+}
+
+export function LeadEditForm({
+  lead,
+  customFields = [],
+  onSaved,
+  onCancel,
+}: LeadEditFormProps) {
+  const { user } = useAuthStore();
+  // Orphan sessions have no lead row yet - saving creates one
+  const isVirtual = lead.id.startsWith("virtual-");
+
+  const form = useForm<LeadUpdate>({
+    resolver: zodResolver(leadUpdateSchema),
+    defaultValues: {
+      contact_name: lead.contact_name || "",
+      company_name: lead.company_name || "",
+      use_case: lead.use_case || "",
+      current_stack: lead.current_stack || "",
+      expected_volume: lead.expected_volume || "",
+      timeline: lead.timeline || "",
+      qualification_score: lead.qualification_score,
+      status: lead.status,
+      notes: lead.notes || "",
+      custom_fields: Object.fromEntries(
+        customFields.map((f) => [f.key, lead.custom_fields?.[f.key] ?? null]),
+      ),
+    },
+  });
+
+  const onSubmit = async (values: LeadUpdate) => {
+    try {
+      const saved = isVirtual
+        ? await createLead(
+            lead.organization_id,
+            { ...values, phone: lead.phone },
+            user,
+          )
+        : await updateLead(lead, values, user);
+      toast.success(isVirtual ? "Lead created" : "Lead updated");
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving lead:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save lead",
+      );
+    }
+  };
+
+  const textFields: {
+    name: Exclude<
+      keyof LeadUpdate,
+      "qualification_score" | "status" | "custom_fields"
+    >;
+    label: string;
+    multiline?: boolean;
+  }[] = [
+    { name: "contact_name", label: "Contact Name" },
+    { name: "company_name", label: "Company" },
+    { name: "use_case", label: "Use Case", multiline: true },
+    { name: "current_stack", label: "Current Stack" },
+    { name: "expected_volume", label: "Expected Volume" },
+    { name: "timeline", label: "Timeline" },
+  ];
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="qualification_score"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Score</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="new">New</SelectItem>
+                    <SelectItem value="hot">Hot</SelectItem>
+                    <SelectItem value="warm">Warm</SelectItem>
+                    <SelectItem value="cold">Cold</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="new">New</SelectItem>
+                    <SelectItem value="qualified">Qualified</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                    <SelectItem value="converted">Converted</SelectItem>
+                    <SelectItem value="lost">Lost</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {textFields.map(({ name, label, multiline }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className={multiline ? "md:col-span-2" : undefined}>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    {multiline ? (
+                      <Textarea {...field} value={field.value ?? ""} />
+                    ) : (
+                      <Input {...field} value={field.value ?? ""} />
+                    )}
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          {customFields.map((customField) => (
+            <FormField
+              key={customField.key}
+              control={form.control}
+              name={`custom_fields.${customField.key}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{customField.label}</FormLabel>
+                  <FormControl>
+                    <CustomFieldInput
+                      field={customField}
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="min-h-[80px]"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={form.formState.isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {isVirtual ? "Create Lead" : "Save"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
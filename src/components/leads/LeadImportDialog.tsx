@@ -0,0 +1,438 @@
+import { useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import {
+  findLeadsByPhones,
+  importLeads,
+  type LeadImportMode,
+  type LeadImportResult,
+} from "@/lib/leads";
+import { readSpreadsheet, type SpreadsheetData } from "@/lib/spreadsheet";
+import {
+  LEAD_IMPORT_FIELDS,
+  guessColumnMapping,
+  validateImportRows,
+  type LeadColumnMapping,
+} from "@/lib/leadImportExport";
+import { formatPhone, normalizePhone } from "@/lib/utils";
+
+interface LeadImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type ImportStep = "upload" | "map" | "preview" | "importing" | "done";
+
+const NOT_MAPPED = "none";
+const PREVIEW_ROWS = 100;
+
+export function LeadImportDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: LeadImportDialogProps) {
+  const { organization, user } = useAuthStore();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<LeadColumnMapping>({});
+  const [mode, setMode] = useState<LeadImportMode>("merge");
+  const [isReading, setIsReading] = useState(false);
+  // Phones that already belong to a lead, looked up when previewing
+  const [existingPhones, setExistingPhones] = useState<Set<string>>(new Set());
+  const [isCheckingExisting, setIsCheckingExisting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<LeadImportResult | null>(null);
+
+  const validated = useMemo(
+    () => (sheet ? validateImportRows(sheet.rows, mapping) : []),
+    [sheet, mapping],
+  );
+  const validRows = validated.filter((row) => row.values);
+  const invalidRows = validated.filter((row) => row.errors.length > 0);
+  const duplicateRows = validated.filter((row) => row.duplicateOfRow);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet(null);
+    setMapping({});
+    setMode("merge");
+    setExistingPhones(new Set());
+    setProgress(0);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing mid-import would hide progress of writes still in flight
+    if (step === "importing") return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        throw new Error("The file has a header row but no leads");
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read the file",
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!organization?.id) return;
+
+    setIsCheckingExisting(true);
+    try {
+      const existing = await findLeadsByPhones(
+        organization.id,
+        validRows.map((row) => row.values!.phone),
+      );
+      setExistingPhones(
+        new Set(existing.map((lead) => normalizePhone(lead.phone))),
+      );
+      setStep("preview");
+    } catch (error) {
+      console.error("Error checking existing leads:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to check for duplicates",
+      );
+    } finally {
+      setIsCheckingExisting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!organization?.id) return;
+
+    setStep("importing");
+    setProgress(0);
+    try {
+      const imported = await importLeads(
+        organization.id,
+        validRows.map((row) => ({
+          rowNumber: row.rowNumber,
+          values: row.values!,
+        })),
+        mode,
+        user,
+        setProgress,
+      );
+      setResult(imported);
+      setStep("done");
+      onImported();
+    } catch (error) {
+      console.error("Error importing leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import leads",
+      );
+      setStep("preview");
+    }
+  };
+
+  const renderUpload = () => (
+    <label className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-10 text-center cursor-pointer hover:border-primary/50">
+      {isReading ? (
+        <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
+      ) : (
+        <Upload className="h-10 w-10 text-muted-foreground/50" />
+      )}
+      <div>
+        <p className="font-medium">Choose a CSV or XLSX file</p>
+        <p className="text-sm text-muted-foreground">
+          The first row must contain column headers
+        </p>
+      </div>
+      <input
+        type="file"
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className="hidden"
+        disabled={isReading}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+    </label>
+  );
+
+  const renderMapping = () => (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <FileSpreadsheet className="h-4 w-4" />
+        {fileName} · {sheet?.rows.length} rows
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {LEAD_IMPORT_FIELDS.map(({ field, label, required }) => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs">
+              {label}
+              {required && <span className="text-destructive"> *</span>}
+            </Label>
+            <Select
+              value={
+                mapping[field] === undefined
+                  ? NOT_MAPPED
+                  : String(mapping[field])
+              }
+              onValueChange={(value) =>
+                setMapping((prev) => ({
+                  ...prev,
+                  [field]: value === NOT_MAPPED ? undefined : Number(value),
+                }))
+              }
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                {sheet?.headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || `Column ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">
+          When a lead with the same phone exists
+        </Label>
+        <Select
+          value={mode}
+          onValueChange={(value) => setMode(value as LeadImportMode)}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="merge">
+              Merge - update it with non-empty values from the file
+            </SelectItem>
+            <SelectItem value="skip">Skip - keep the existing lead</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{validRows.length} ready to import</Badge>
+        {invalidRows.length > 0 && (
+          <Badge variant="destructive">{invalidRows.length} with errors</Badge>
+        )}
+        {existingPhones.size > 0 && (
+          <Badge variant="outline">
+            {existingPhones.size} match existing leads
+          </Badge>
+        )}
+        {duplicateRows.length > 0 && (
+          <Badge variant="outline">
+            {duplicateRows.length} duplicates merged within the file
+          </Badge>
+        )}
+      </div>
+
+      <div className="max-h-[360px] overflow-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-muted/50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Row</th>
+              <th className="px-3 py-2 text-left font-medium">Phone</th>
+              <th className="px-3 py-2 text-left font-medium">Name</th>
+              <th className="px-3 py-2 text-left font-medium">Company</th>
+              <th className="px-3 py-2 text-left font-medium">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {validated.slice(0, PREVIEW_ROWS).map((row) => (
+              <tr
+                key={row.rowNumber}
+                className={row.errors.length > 0 ? "bg-red-50" : undefined}
+              >
+                <td className="px-3 py-2 text-muted-foreground">
+                  {row.rowNumber}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {row.values ? formatPhone(row.values.phone) : "—"}
+                </td>
+                <td className="px-3 py-2">{row.values?.contact_name || "—"}</td>
+                <td className="px-3 py-2">{row.values?.company_name || "—"}</td>
+                <td className="px-3 py-2">
+                  {row.errors.length > 0 ? (
+                    <span className="text-destructive">
+                      {row.errors.join("; ")}
+                    </span>
+                  ) : row.duplicateOfRow ? (
+                    <span className="text-muted-foreground">
+                      Merged into row {row.duplicateOfRow}
+                    </span>
+                  ) : existingPhones.has(row.values!.phone) ? (
+                    <span className="text-amber-600">
+                      {mode === "merge"
+                        ? "Updates existing lead"
+                        : "Skipped - lead exists"}
+                    </span>
+                  ) : (
+                    <span className="text-green-600">New lead</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {validated.length > PREVIEW_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {PREVIEW_ROWS} of {validated.length} rows
+        </p>
+      )}
+    </div>
+  );
+
+  const renderImporting = () => (
+    <div className="space-y-3 py-6">
+      <Progress value={(progress / Math.max(validRows.length, 1)) * 100} />
+      <p className="text-sm text-center text-muted-foreground">
+        Importing {progress} of {validRows.length} leads...
+      </p>
+    </div>
+  );
+
+  const renderDone = () =>
+    result && (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <CheckCircle className="h-5 w-5 text-green-600" />
+          <p className="font-medium">Import finished</p>
+        </div>
+        <ul className="text-sm space-y-1">
+          <li>{result.created} leads created</li>
+          <li>{result.merged} existing leads updated</li>
+          {result.skipped > 0 && (
+            <li>{result.skipped} existing leads skipped</li>
+          )}
+          {invalidRows.length > 0 && (
+            <li>{invalidRows.length} rows not imported due to errors</li>
+          )}
+        </ul>
+        {result.failed.length > 0 && (
+          <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+            <p className="flex items-center gap-2 font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {result.failed.length} rows failed to save
+            </p>
+            <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+              {result.failed.map((failure) => (
+                <li key={failure.rowNumber}>
+                  Row {failure.rowNumber}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Leads</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a spreadsheet of leads"}
+            {step === "map" && "Match the file's columns to lead fields"}
+            {step === "preview" && "Check the rows before importing"}
+            {step === "importing" && "Saving leads"}
+            {step === "done" && fileName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && renderUpload()}
+        {step === "map" && renderMapping()}
+        {step === "preview" && renderPreview()}
+        {step === "importing" && renderImporting()}
+        {step === "done" && renderDone()}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                onClick={handlePreview}
+                disabled={mapping.phone === undefined || isCheckingExisting}
+              >
+                {isCheckingExisting && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} leads
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,8 @@
+import { useState } from "react";
+import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { formatDate, formatPhone } from "@/lib/utils";
 import {
   User,
@@ -12,15 +15,51 @@ import {
   Flame,
   Thermometer,
   Snowflake,
+  Pencil,
+  ListPlus,
+  Tag as TagIcon,
 } from "lucide-react";
-import type { LeadWithSession } from "@/types";
+import { LeadEditForm } from "./LeadEditForm";
+import { LeadAssigneeSelect } from "./LeadAssigneeSelect";
+import { TagPicker } from "./TagPicker";
+import { formatCustomFieldValue } from "@/lib/leads";
+import { setLeadTags } from "@/lib/tags";
+import type { CustomLeadField, Lead, LeadWithSession, Tag } from "@/types";
 import type { QualificationScore, LeadStatus } from "@/types/salesConfig";
 
 interface LeadInfoCardProps {
   lead: LeadWithSession;
+  customFields?: CustomLeadField[];
+  tags?: Tag[];
+  onLeadUpdated?: (lead: Lead) => void;
 }
 
-export function LeadInfoCard({ lead }: LeadInfoCardProps) {
+export function LeadInfoCard({
+  lead,
+  customFields = [],
+  tags = [],
+  onLeadUpdated,
+}: LeadInfoCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const isVirtual = lead.id.startsWith("virtual-");
+
+  const handleSaved = (saved: Lead) => {
+    setIsEditing(false);
+    onLeadUpdated?.(saved);
+  };
+
+  const handleTagsChange = async (tagIds: string[]) => {
+    try {
+      await setLeadTags(lead.id, tagIds);
+      onLeadUpdated?.({ ...lead, tag_ids: tagIds });
+    } catch (error) {
+      console.error("Error updating lead tags:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update tags",
+      );
+    }
+  };
+
   const getScoreIcon = (score: QualificationScore) => {
     switch (score) {
       case "hot":
@@ -64,12 +103,20 @@ export function LeadInfoCard({ lead }: LeadInfoCardProps) {
     }
   };
 
+  const customValues = customFields
+    .map((field) => ({
+      field,
+      value: formatCustomFieldValue(field, lead.custom_fields?.[field.key]),
+    }))
+    .filter(({ value }) => value);
+
   const hasAdditionalInfo =
     lead.use_case ||
     lead.current_stack ||
     lead.expected_volume ||
     lead.timeline ||
-    lead.notes;
+    lead.notes ||
+    customValues.length > 0;
 
   return (
     <Card>
@@ -106,81 +153,140 @@ export function LeadInfoCard({ lead }: LeadInfoCardProps) {
             >
               {lead.status}
             </span>
+            {onLeadUpdated && !isEditing && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setIsEditing(true)}
+                title={
+                  isVirtual ? "Create lead from conversation" : "Edit lead"
+                }
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Dates */}
-        <div className="flex items-center gap-4 text-sm text-muted-foreground">
-          <span className="flex items-center gap-1">
-            <Calendar className="h-4 w-4" />
-            Created {formatDate(lead.created_at)}
-          </span>
-        </div>
+        {isEditing ? (
+          <LeadEditForm
+            key={lead.id}
+            lead={lead}
+            customFields={customFields}
+            onSaved={handleSaved}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <>
+            {/* Dates */}
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                Created {formatDate(lead.created_at)}
+              </span>
+            </div>
 
-        {/* Additional Info (collapsible feel - always shown if present) */}
-        {hasAdditionalInfo && (
-          <div className="border-t pt-4 space-y-3">
-            {lead.use_case && (
-              <div className="flex items-start gap-2">
-                <Briefcase className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground">
-                    Use Case
-                  </p>
-                  <p className="text-sm">{lead.use_case}</p>
-                </div>
-              </div>
+            {onLeadUpdated && !isVirtual && (
+              <LeadAssigneeSelect lead={lead} onAssigned={handleSaved} />
             )}
 
-            {lead.current_stack && (
-              <div className="flex items-start gap-2">
-                <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground">
-                    Current Stack
-                  </p>
-                  <p className="text-sm">{lead.current_stack}</p>
-                </div>
+            {!isVirtual && (
+              <div className="flex items-center gap-2 text-sm">
+                <TagIcon className="h-4 w-4 text-muted-foreground" />
+                <TagPicker
+                  tags={tags}
+                  value={lead.tag_ids}
+                  onChange={handleTagsChange}
+                  disabled={!onLeadUpdated}
+                />
               </div>
             )}
 
-            {lead.expected_volume && (
-              <div className="flex items-start gap-2">
-                <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground">
-                    Expected Volume
-                  </p>
-                  <p className="text-sm">{lead.expected_volume}</p>
-                </div>
-              </div>
-            )}
+            {/* Additional Info (collapsible feel - always shown if present) */}
+            {hasAdditionalInfo && (
+              <div className="border-t pt-4 space-y-3">
+                {lead.use_case && (
+                  <div className="flex items-start gap-2">
+                    <Briefcase className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Use Case
+                      </p>
+                      <p className="text-sm">{lead.use_case}</p>
+                    </div>
+                  </div>
+                )}
 
-            {lead.timeline && (
-              <div className="flex items-start gap-2">
-                <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground">
-                    Timeline
-                  </p>
-                  <p className="text-sm">{lead.timeline}</p>
-                </div>
-              </div>
-            )}
+                {lead.current_stack && (
+                  <div className="flex items-start gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Current Stack
+                      </p>
+                      <p className="text-sm">{lead.current_stack}</p>
+                    </div>
+                  </div>
+                )}
+
+                {lead.expected_volume && (
+                  <div className="flex items-start gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Expected Volume
+                      </p>
+                      <p className="text-sm">{lead.expected_volume}</p>
+                    </div>
+                  </div>
+                )}
+
+                {lead.timeline && (
+                  <div className="flex items-start gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Timeline
+                      </p>
+                      <p className="text-sm">{lead.timeline}</p>
+                    </div>
+                  </div>
+                )}
 
-            {lead.notes && (
-              <div className="flex items-start gap-2">
-                <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <div>
-                  <p className="text-xs font-medium text-muted-foreground">
-                    Notes
-                  </p>
-                  <p className="text-sm whitespace-pre-wrap">{lead.notes}</p>
-                </div>
+                {customValues.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {customValues.map(({ field, value }) => (
+                      <div key={field.key} className="flex items-start gap-2">
+                        <ListPlus className="h-4 w-4 text-muted-foreground mt-0.5" />
+                        <div className="min-w-0">
+                          <p className="text-xs font-medium text-muted-foreground">
+                            {field.label}
+                          </p>
+                          <p className="text-sm break-words">{value}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {lead.notes && (
+                  <div className="flex items-start gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Notes
+                      </p>
+                      <p className="text-sm whitespace-pre-wrap">
+                        {lead.notes}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
-          </div>
+          </>
         )}
       </CardContent>
     </Card>
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { ArrowLeftRight, GitMerge, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuthStore } from "@/stores/authStore";
+import { fetchMembers, mergeLeads } from "@/lib/api";
+import { LEAD_FIELD_LABELS } from "@/lib/leads";
+import { cn, formatDate, formatPhone } from "@/lib/utils";
+import type {
+  Lead,
+  LeadMergeField,
+  LeadWithSession,
+  TeamMember,
+} from "@/types";
+
+interface LeadMergeDialogProps {
+  leads: [LeadWithSession, LeadWithSession] | null;
+  onOpenChange: (open: boolean) => void;
+  onMerged: (lead: Lead) => void;
+}
+
+const MERGE_FIELDS: LeadMergeField[] = [
+  "phone",
+  "contact_name",
+  "company_name",
+  "qualification_score",
+  "status",
+  "assigned_rep_id",
+  "use_case",
+  "current_stack",
+  "expected_volume",
+  "timeline",
+  "notes",
+];
+
+const isVirtual = (lead: Lead) => lead.id.startsWith("virtual-");
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+// Fill the primary's blanks from the duplicate by default
+const defaultPicks = (primary: Lead, duplicate: Lead) =>
+  new Set(
+    MERGE_FIELDS.filter(
+      (field) => isEmpty(primary[field]) && !isEmpty(duplicate[field]),
+    ),
+  );
+
+export function LeadMergeDialog({
+  leads,
+  onOpenChange,
+  onMerged,
+}: LeadMergeDialogProps) {
+  const { organization } = useAuthStore();
+  const [primary, setPrimary] = useState<LeadWithSession | null>(null);
+  const [duplicate, setDuplicate] = useState<LeadWithSession | null>(null);
+  const [fromDuplicate, setFromDuplicate] = useState<Set<LeadMergeField>>(
+    new Set(),
+  );
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!leads) return;
+    // An orphan session has no lead row, so it can only be the duplicate;
+    // otherwise keep the older lead
+    const [a, b] = leads;
+    const aFirst =
+      isVirtual(b) ||
+      (!isVirtual(a) && new Date(a.created_at) <= new Date(b.created_at));
+    const [p, d] = aFirst ? [a, b] : [b, a];
+    setPrimary(p);
+    setDuplicate(d);
+    setFromDuplicate(defaultPicks(p, d));
+  }, [leads]);
+
+  useEffect(() => {
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, []);
+
+  const swap = () => {
+    if (!primary || !duplicate) return;
+    setPrimary(duplicate);
+    setDuplicate(primary);
+    setFromDuplicate(defaultPicks(duplicate, primary));
+  };
+
+  const pick = (field: LeadMergeField, takeDuplicate: boolean) => {
+    setFromDuplicate((prev) => {
+      const next = new Set(prev);
+      if (takeDuplicate) {
+        next.add(field);
+      } else {
+        next.delete(field);
+      }
+      return next;
+    });
+  };
+
+  const formatValue = (field: LeadMergeField, lead: Lead) => {
+    const value = lead[field];
+    if (isEmpty(value)) return "—";
+    if (field === "phone") return formatPhone(String(value));
+    if (field === "assigned_rep_id") {
+      const member = members.find((m) => m.id === value);
+      return member?.name || member?.email || String(value);
+    }
+    return String(value);
+  };
+
+  const handleMerge = async () => {
+    if (!organization?.id || !primary || !duplicate) return;
+
+    setIsMerging(true);
+    try {
+      const merged = await mergeLeads(organization.id, {
+        primary_lead_id: primary.id,
+        ...(isVirtual(duplicate)
+          ? { duplicate_session_id: duplicate.session?.id }
+          : { duplicate_lead_id: duplicate.id }),
+        take_from_duplicate: [...fromDuplicate],
+      });
+      toast.success("Leads merged");
+      onMerged(merged);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error merging leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to merge leads",
+      );
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const renderColumnHeader = (lead: LeadWithSession, label: string) => (
+    <th className="px-3 py-2 text-left font-medium">
+      <p className="text-xs uppercase text-muted-foreground">{label}</p>
+      <p className="truncate">{lead.contact_name || formatPhone(lead.phone)}</p>
+      <p className="text-xs font-normal text-muted-foreground">
+        {isVirtual(lead)
+          ? "Conversation only"
+          : `Created ${formatDate(lead.created_at)}`}
+      </p>
+    </th>
+  );
+
+  return (
+    <Dialog open={!!leads} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Leads</DialogTitle>
+          <DialogDescription>
+            Pick which value to keep for each field. The duplicate's
+            conversations and calls move to the kept lead, and the duplicate is
+            removed. Merges are recorded in the merge history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {primary && duplicate && (
+          <div className="space-y-3">
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={swap}
+                disabled={isVirtual(duplicate) || isMerging}
+                title={
+                  isVirtual(duplicate)
+                    ? "A conversation without a lead can't be kept as the lead"
+                    : undefined
+                }
+              >
+                <ArrowLeftRight className="h-4 w-4 mr-2" />
+                Swap
+              </Button>
+            </div>
+
+            <div className="max-h-[420px] overflow-auto rounded-lg border">
+              <table className="w-full table-fixed text-sm">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="w-32 px-3 py-2 text-left font-medium">
+                      Field
+                    </th>
+                    {renderColumnHeader(primary, "Keep")}
+                    {renderColumnHeader(duplicate, "Merge in")}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {MERGE_FIELDS.map((field) => {
+                    const takeDuplicate = fromDuplicate.has(field);
+                    const same =
+                      (primary[field] ?? null) === (duplicate[field] ?? null);
+                    return (
+                      <tr key={field}>
+                        <td className="px-3 py-2 text-muted-foreground">
+                          {LEAD_FIELD_LABELS[field] || field}
+                        </td>
+                        {[false, true].map((fromDup) => (
+                          <td key={String(fromDup)} className="px-1 py-1">
+                            <button
+                              type="button"
+                              disabled={same || isMerging}
+                              onClick={() => pick(field, fromDup)}
+                              className={cn(
+                                "w-full rounded-md px-2 py-1.5 text-left break-words",
+                                !same && "hover:bg-muted",
+                                !same &&
+                                  takeDuplicate === fromDup &&
+                                  "bg-primary/10 ring-1 ring-primary",
+                              )}
+                            >
+                              {formatValue(
+                                field,
+                                fromDup ? duplicate : primary,
+                              )}
+                            </button>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isMerging}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isMerging || !primary}>
+            {isMerging ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <GitMerge className="h-4 w-4 mr-2" />
+            )}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Pencil, Reply, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuthStore } from "@/stores/authStore";
+import { supabase } from "@/lib/supabase";
+import { createLeadNote, fetchMembers } from "@/lib/api";
+import {
+  deleteLeadNote,
+  fetchLeadNotes,
+  updateLeadNote,
+} from "@/lib/leadNotes";
+import { formatDateTime, getInitials } from "@/lib/utils";
+import { NoteBody } from "./NoteBody";
+import { NoteComposer } from "./NoteComposer";
+import type { Lead, LeadNote, LeadNoteMention, TeamMember } from "@/types";
+
+interface LeadNotesProps {
+  lead: Lead;
+}
+
+export function LeadNotes({ lead }: LeadNotesProps) {
+  const { organization, user } = useAuthStore();
+  const [notes, setNotes] = useState<LeadNote[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [noteToDelete, setNoteToDelete] = useState<LeadNote | null>(null);
+
+  const threads = notes.filter((n) => !n.parent_id);
+  const repliesTo = (noteId: string) =>
+    notes.filter((n) => n.parent_id === noteId);
+
+  // Fetch the notes and follow changes made by teammates in realtime
+  useEffect(() => {
+    let cancelled = false;
+    setNotes([]);
+    setReplyingTo(null);
+    setEditingId(null);
+    setIsLoading(true);
+
+    const loadNotes = () =>
+      fetchLeadNotes(lead.id)
+        .then((data) => {
+          if (!cancelled) setNotes(data);
+        })
+        .catch((error) => {
+          console.error("Error fetching lead notes:", error);
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    loadNotes();
+
+    const channel = supabase
+      .channel(`lead_notes_${lead.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "sales",
+          table: "lead_notes",
+          filter: `lead_id=eq.${lead.id}`,
+        },
+        () => loadNotes(),
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [lead.id]);
+
+  useEffect(() => {
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, []);
+
+  const upsertNote = (saved: LeadNote) => {
+    setNotes((prev) =>
+      prev.some((n) => n.id === saved.id)
+        ? prev.map((n) => (n.id === saved.id ? saved : n))
+        : [...prev, saved],
+    );
+  };
+
+  // Errors are rethrown so the composer keeps the draft
+  const handleCreate = async (
+    note: { body: string; mentions: LeadNoteMention[] },
+    parentId: string | null = null,
+  ) => {
+    if (!organization?.id) return;
+    try {
+      const saved = await createLeadNote(organization.id, lead.id, {
+        ...note,
+        parent_id: parentId,
+      });
+      upsertNote(saved);
+      setReplyingTo(null);
+      if (note.mentions.length > 0) {
+        toast.success(
+          `Notified ${note.mentions.map((m) => m.name).join(", ")}`,
+        );
+      }
+    } catch (error) {
+      console.error("Error adding note:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add note",
+      );
+      throw error;
+    }
+  };
+
+  const handleUpdate = async (
+    noteId: string,
+    values: { body: string; mentions: LeadNoteMention[] },
+  ) => {
+    try {
+      upsertNote(await updateLeadNote(noteId, values));
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error updating note:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update note",
+      );
+      throw error;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!noteToDelete) return;
+
+    const deleted = noteToDelete;
+    setNoteToDelete(null);
+    try {
+      await deleteLeadNote(deleted.id);
+      setNotes((prev) =>
+        prev.filter((n) => n.id !== deleted.id && n.parent_id !== deleted.id),
+      );
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete note",
+      );
+    }
+  };
+
+  const renderNote = (note: LeadNote, isReply = false) => {
+    const author = note.author_name || "Unknown";
+    const isOwn = note.author_id === user?.id;
+    const isEdited = note.updated_at !== note.created_at;
+
+    return (
+      <div key={note.id} className="flex gap-3">
+        <Avatar className={isReply ? "h-6 w-6" : "h-8 w-8"}>
+          <AvatarFallback className="text-xs">
+            {getInitials(author)}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="group flex items-center gap-2">
+            <span className="text-sm font-medium">{author}</span>
+            <span
+              className="text-xs text-muted-foreground"
+              title={formatDateTime(note.created_at)}
+            >
+              {formatDistanceToNow(new Date(note.created_at), {
+                addSuffix: true,
+              })}
+              {isEdited && " (edited)"}
+            </span>
+            <div className="ml-auto flex opacity-0 group-hover:opacity-100">
+              {!isReply && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setReplyingTo(note.id)}
+                  title="Reply"
+                >
+                  <Reply className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {isOwn && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setEditingId(note.id)}
+                    title="Edit note"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 hover:text-destructive"
+                    onClick={() => setNoteToDelete(note)}
+                    title="Delete note"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          {editingId === note.id ? (
+            <NoteComposer
+              members={members}
+              initialBody={note.body}
+              initialMentions={note.mentions}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={(values) => handleUpdate(note.id, values)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <NoteBody body={note.body} mentions={note.mentions} />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading && notes.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No notes yet. Notes are only visible to your team.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {threads.map((note) => (
+            <div key={note.id} className="space-y-3">
+              {renderNote(note)}
+              {(repliesTo(note.id).length > 0 || replyingTo === note.id) && (
+                <div className="ml-11 space-y-3 border-l pl-3">
+                  {repliesTo(note.id).map((reply) => renderNote(reply, true))}
+                  {replyingTo === note.id && (
+                    <NoteComposer
+                      members={members}
+                      placeholder="Reply..."
+                      submitLabel="Reply"
+                      autoFocus
+                      onSubmit={(values) => handleCreate(values, note.id)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <NoteComposer members={members} onSubmit={handleCreate} />
+
+      <AlertDialog
+        open={!!noteToDelete}
+        onOpenChange={(open) => !open && setNoteToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Note</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete this note?
+              {noteToDelete &&
+                !noteToDelete.parent_id &&
+                repliesTo(noteToDelete.id).length > 0 &&
+                " Its replies will be deleted too."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import {
+  Bot,
+  CalendarCheck,
+  CalendarClock,
+  CalendarPlus,
+  CalendarX,
+  Clock,
+  Flag,
+  GitMerge,
+  Hand,
+  Loader2,
+  Pause,
+  Pencil,
+  StickyNote,
+  Thermometer,
+  UserCheck,
+  UserMinus,
+  UserPlus,
+  UserRound,
+  UserX,
+  X,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { fetchMembers } from "@/lib/api";
+import { fetchLeadActivity, getLeadFieldLabel } from "@/lib/leads";
+import { cn, formatDate, formatDateTime, truncate } from "@/lib/utils";
+import type {
+  CustomLeadField,
+  LeadActivity,
+  LeadActivityKind,
+  LeadWithSession,
+  TeamMember,
+} from "@/types";
+
+interface LeadTimelineProps {
+  lead: LeadWithSession;
+  customFields?: CustomLeadField[];
+  // Change to refetch, e.g. after the lead or its session was updated
+  refreshKey?: string | number;
+}
+
+const ACTIVITY_ICONS: Record<LeadActivityKind, LucideIcon> = {
+  created: UserPlus,
+  score: Thermometer,
+  status: Flag,
+  assignment: UserCheck,
+  note: StickyNote,
+  edit: Pencil,
+  merge: GitMerge,
+  escalated: UserRound,
+  released: Bot,
+  prolonged: Clock,
+  paused: Pause,
+  scheduled: CalendarClock,
+  schedule_cancelled: X,
+  claimed: Hand,
+  unclaimed: UserMinus,
+  call_booked: CalendarPlus,
+  call_completed: CalendarCheck,
+  call_cancelled: CalendarX,
+  call_no_show: UserX,
+};
+
+const ACTIVITY_TITLES: Record<LeadActivityKind, string> = {
+  created: "Lead created",
+  score: "Score changed",
+  status: "Status changed",
+  assignment: "Assignment changed",
+  note: "Notes updated",
+  edit: "Details edited",
+  merge: "Duplicate merged in",
+  escalated: "Escalated to a human",
+  released: "Released to the agent",
+  prolonged: "Human control prolonged",
+  paused: "Agent paused",
+  scheduled: "Control change scheduled",
+  schedule_cancelled: "Scheduled change cancelled",
+  claimed: "Conversation claimed",
+  unclaimed: "Conversation unclaimed",
+  call_booked: "Discovery call booked",
+  call_completed: "Discovery call completed",
+  call_cancelled: "Discovery call cancelled",
+  call_no_show: "Lead didn't show up for the call",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "empty";
+  return truncate(String(value), 60);
+}
+
+export function LeadTimeline({
+  lead,
+  customFields,
+  refreshKey,
+}: LeadTimelineProps) {
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchLeadActivity(lead)
+      .then((data) => {
+        if (!cancelled) setActivities(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching lead activity:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // The lead object is replaced on every list refresh; refetch only when
+    // it is a different lead or the caller signals a change
+  }, [lead.id, refreshKey]);
+
+  useEffect(() => {
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+  }, []);
+
+  const memberName = (id: unknown) => {
+    if (!id) return null;
+    const member = members.find((m) => m.id === id);
+    return member?.name || member?.email || String(id);
+  };
+
+  const renderDetail = (activity: LeadActivity) => {
+    const { kind, changes, call } = activity;
+
+    if (kind === "assignment" && changes) {
+      const name = memberName(changes.assigned_rep_id?.to);
+      return <p>{name ? `Assigned to ${name}` : "Unassigned"}</p>;
+    }
+    if (kind === "note" && changes) {
+      return (
+        <p className="whitespace-pre-wrap break-words text-muted-foreground">
+          {truncate(String(changes.notes?.to ?? ""), 200) || "Notes cleared"}
+        </p>
+      );
+    }
+    if (kind === "merge" && changes) {
+      return <p>{formatValue(changes.merged_lead?.to)}</p>;
+    }
+    if (changes) {
+      return Object.entries(changes).map(([field, { from, to }]) => (
+        <p key={field} className="break-words">
+          <span className="text-muted-foreground">
+            {getLeadFieldLabel(field, customFields)}:
+          </span>{" "}
+          <span className="line-through text-muted-foreground">
+            {formatValue(from)}
+          </span>{" "}
+          → {formatValue(to)}
+        </p>
+      ));
+    }
+    if (call) {
+      const rep = memberName(call.rep_id);
+      return (
+        <>
+          <p className="text-muted-foreground">
+            {formatDateTime(call.scheduled_at)}
+            {rep && ` with ${rep}`}
+          </p>
+          {kind === "call_completed" && call.outcome && (
+            <p className="break-words">{call.outcome}</p>
+          )}
+          {kind === "call_completed" && call.next_step && (
+            <p className="break-words text-muted-foreground">
+              Next: {call.next_step}
+              {call.follow_up_at &&
+                ` by ${formatDate(parseISO(call.follow_up_at))}`}
+            </p>
+          )}
+        </>
+      );
+    }
+    if (activity.reason) {
+      return (
+        <p className="break-words text-muted-foreground">{activity.reason}</p>
+      );
+    }
+    return null;
+  };
+
+  if (isLoading && activities.length === 0) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-2">No activity yet</p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {activities.map((activity) => {
+        const Icon = ACTIVITY_ICONS[activity.kind];
+        return (
+          <li key={activity.id} className="relative text-sm">
+            <span
+              className={cn(
+                "absolute -left-[2.15rem] flex h-6 w-6 items-center justify-center rounded-full border bg-background",
+                activity.kind === "escalated" && "border-orange-300",
+              )}
+            >
+              <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+            </span>
+            <div className="min-w-0">
+              <p className="font-medium">{ACTIVITY_TITLES[activity.kind]}</p>
+              {renderDetail(activity)}
+              <p className="text-xs text-muted-foreground">
+                {activity.actor_name || "System"} ·{" "}
+                <span title={formatDateTime(activity.created_at)}>
+                  {formatDistanceToNow(new Date(activity.created_at), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
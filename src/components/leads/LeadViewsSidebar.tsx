@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import {
+  Bookmark,
+  BookmarkPlus,
+  Loader2,
+  MoreHorizontal,
+  Sparkles,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuthStore } from "@/stores/authStore";
+import { fetchLeadCounts } from "@/lib/api";
+import {
+  SMART_SEGMENTS,
+  deleteLeadView,
+  fetchLeadViews,
+  hasViewFilters,
+  isSameViewFilters,
+  resolveViewFilters,
+  updateLeadView,
+} from "@/lib/leadViews";
+import { cn } from "@/lib/utils";
+import { SaveLeadViewDialog } from "./SaveLeadViewDialog";
+import type { LeadView, LeadViewFilters } from "@/types";
+
+interface LeadViewsSidebarProps {
+  filters: LeadViewFilters;
+  onSelect: (filters: LeadViewFilters) => void;
+  // Bump to refresh the counts, e.g. on realtime lead changes
+  refreshKey?: number;
+  className?: string;
+}
+
+const COUNTS_DEBOUNCE_MS = 500;
+
+export function LeadViewsSidebar({
+  filters,
+  onSelect,
+  refreshKey,
+  className,
+}: LeadViewsSidebarProps) {
+  const { organization, user, currentMembership } = useAuthStore();
+  const [views, setViews] = useState<LeadView[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isLoadingViews, setIsLoadingViews] = useState(true);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [viewToEdit, setViewToEdit] = useState<LeadView | null>(null);
+  const [viewToDelete, setViewToDelete] = useState<LeadView | null>(null);
+
+  // "My leads" needs a membership to resolve against
+  const segments = SMART_SEGMENTS.filter(
+    (segment) => segment.filters.assignee !== "me" || currentMembership,
+  );
+  const myViews = views.filter((v) => v.created_by === user?.id);
+  const sharedViews = views.filter(
+    (v) => v.scope === "organization" && v.created_by !== user?.id,
+  );
+  const activeId = [...segments, ...views].find((v) =>
+    isSameViewFilters(v.filters, filters),
+  )?.id;
+
+  useEffect(() => {
+    if (!organization?.id || !user?.id) return;
+
+    setIsLoadingViews(true);
+    fetchLeadViews(organization.id, user.id)
+      .then(setViews)
+      .catch((error) => {
+        console.error("Error fetching lead views:", error);
+      })
+      .finally(() => setIsLoadingViews(false));
+  }, [organization?.id, user?.id]);
+
+  // Live counts: one request for every segment and view, debounced so a
+  // burst of realtime changes only triggers one recount
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    const organizationId = organization.id;
+    const timeout = setTimeout(() => {
+      const requested = Object.fromEntries(
+        [...segments, ...views].map((v) => [
+          v.id,
+          resolveViewFilters(v.filters, currentMembership?.id),
+        ]),
+      );
+      fetchLeadCounts(organizationId, requested)
+        .then(setCounts)
+        .catch((error) => {
+          console.error("Error fetching lead counts:", error);
+        });
+    }, COUNTS_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [organization?.id, currentMembership?.id, views, refreshKey]);
+
+  const handleSaved = (saved: LeadView) => {
+    setViews((prev) =>
+      [...prev.filter((v) => v.id !== saved.id), saved].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+  };
+
+  const handleUpdateFilters = async (view: LeadView) => {
+    try {
+      handleSaved(await updateLeadView(view.id, { filters }));
+      toast.success(`View "${view.name}" updated`);
+    } catch (error) {
+      console.error("Error updating lead view:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update view",
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!viewToDelete) return;
+
+    const deleted = viewToDelete;
+    setViewToDelete(null);
+    try {
+      await deleteLeadView(deleted.id);
+      setViews((prev) => prev.filter((v) => v.id !== deleted.id));
+      toast.success(`View "${deleted.name}" deleted`);
+    } catch (error) {
+      console.error("Error deleting lead view:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete view",
+      );
+    }
+  };
+
+  const renderItem = (
+    view: Pick<LeadView, "id" | "name" | "filters">,
+    saved?: LeadView,
+  ) => (
+    <li key={view.id} className="group flex items-center gap-1">
+      <button
+        type="button"
+        onClick={() => onSelect(view.filters)}
+        className={cn(
+          "flex min-w-0 flex-1 items-center justify-between gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+          activeId === view.id && "bg-muted font-medium",
+        )}
+      >
+        <span className="flex min-w-0 items-center gap-1.5">
+          {saved?.scope === "organization" && (
+            <Users className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+          )}
+          <span className="truncate">{view.name}</span>
+        </span>
+        <span className="text-xs tabular-nums text-muted-foreground">
+          {counts[view.id] ?? "–"}
+        </span>
+      </button>
+      {saved && saved.created_by === user?.id && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+              aria-label={`${view.name} options`}
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              disabled={isSameViewFilters(saved.filters, filters)}
+              onClick={() => handleUpdateFilters(saved)}
+            >
+              Update with current filters
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => {
+                setViewToEdit(saved);
+                setIsSaveOpen(true);
+              }}
+            >
+              Rename or share
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive"
+              onClick={() => setViewToDelete(saved)}
+            >
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </li>
+  );
+
+  return (
+    <Card className={className}>
+      <CardContent className="space-y-4 pt-6">
+        <div>
+          <p className="mb-1 flex items-center gap-1.5 px-2 text-xs font-medium uppercase text-muted-foreground">
+            <Sparkles className="h-3.5 w-3.5" />
+            Segments
+          </p>
+          <ul className="space-y-0.5">
+            {segments.map((segment) => renderItem(segment))}
+          </ul>
+        </div>
+
+        <div>
+          <p className="mb-1 flex items-center gap-1.5 px-2 text-xs font-medium uppercase text-muted-foreground">
+            <Bookmark className="h-3.5 w-3.5" />
+            Saved Views
+            {isLoadingViews && <Loader2 className="h-3 w-3 animate-spin" />}
+          </p>
+          {myViews.length === 0 && sharedViews.length === 0 ? (
+            <p className="px-2 py-1 text-xs text-muted-foreground">
+              Filter the list and save it to get back to it later
+            </p>
+          ) : (
+            <ul className="space-y-0.5">
+              {myViews.map((view) => renderItem(view, view))}
+              {sharedViews.map((view) => renderItem(view, view))}
+            </ul>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={!hasViewFilters(filters) || !!activeId}
+          onClick={() => {
+            setViewToEdit(null);
+            setIsSaveOpen(true);
+          }}
+        >
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          Save current view
+        </Button>
+      </CardContent>
+
+      <SaveLeadViewDialog
+        open={isSaveOpen}
+        onOpenChange={setIsSaveOpen}
+        filters={filters}
+        view={viewToEdit}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={!!viewToDelete}
+        onOpenChange={(open) => !open && setViewToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete View</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{viewToDelete?.name}</strong>?
+              {viewToDelete?.scope === "organization" &&
+                " It is shared, so it will disappear for everyone in the organization."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
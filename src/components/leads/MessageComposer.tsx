@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from "react";
+import { Send, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { renderSnippet, type SnippetVariables } from "@/lib/snippets";
+import { cn, getLanguageLabel, truncate } from "@/lib/utils";
+import type { Snippet } from "@/types";
+
+interface MessageComposerProps {
+  onSend: (content: string) => Promise<void>;
+  disabled?: boolean;
+  disabledReason?: string;
+  // Resolves false to keep the draft instead of sending it
+  confirmSend?: () => Promise<boolean>;
+  onTypingChange?: (isTyping: boolean) => void;
+  snippets?: Snippet[];
+  snippetVariables?: SnippetVariables;
+  // Snippet languages to offer, the default first
+  languages?: string[];
+}
+
+// Typing is considered over after this long without a keystroke
+const TYPING_IDLE_MS = 4000;
+
+const MAX_SUGGESTIONS = 6;
+
+// "/" at the start of the text or after whitespace, up to the caret
+const SNIPPET_QUERY = /(?:^|\s)\/([\w-]*)$/;
+
+export function MessageComposer({
+  onSend,
+  disabled = false,
+  disabledReason,
+  confirmSend,
+  onTypingChange,
+  snippets = [],
+  snippetVariables = {},
+  languages = [],
+}: MessageComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [content, setContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [language, setLanguage] = useState<string | null>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  const menuLanguages = languages.filter((code) =>
+    snippets.some((s) => s.language === code),
+  );
+  const activeLanguage = language ?? menuLanguages[0];
+  const suggestions =
+    query === null
+      ? []
+      : snippets
+          .filter(
+            (s) =>
+              (!activeLanguage || s.language === activeLanguage) &&
+              [s.shortcut, s.title].some((value) =>
+                value.toLowerCase().includes(query.toLowerCase()),
+              ),
+          )
+          .slice(0, MAX_SUGGESTIONS);
+  const isMenuOpen = query !== null && (suggestions.length > 0 || !!query);
+
+  const stopTyping = () => {
+    clearTimeout(typingTimeout.current);
+    typingTimeout.current = undefined;
+    onTypingChange?.(false);
+  };
+
+  useEffect(() => () => clearTimeout(typingTimeout.current), []);
+
+  const handleChange = (value: string, caret: number) => {
+    setContent(value);
+    if (snippets.length > 0) {
+      const match = SNIPPET_QUERY.exec(value.slice(0, caret));
+      setQuery(match ? match[1] : null);
+      setHighlighted(0);
+    }
+    if (!onTypingChange) return;
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+    if (!typingTimeout.current) onTypingChange(true);
+    clearTimeout(typingTimeout.current);
+    typingTimeout.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const insertSnippet = (snippet: Snippet) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+
+    const text = renderSnippet(snippet.body, snippetVariables);
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1;
+    setContent(`${content.slice(0, start)}${text}${content.slice(caret)}`);
+    setQuery(null);
+
+    const position = start + text.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const canSend = !disabled && !isSending && content.trim().length > 0;
+
+  const handleSend = async () => {
+    if (!canSend) return;
+
+    const text = content.trim();
+    setIsSending(true);
+    if (confirmSend && !(await confirmSend())) {
+      setIsSending(false);
+      return;
+    }
+    stopTyping();
+    // Clear immediately - the message is shown optimistically in the transcript
+    setContent("");
+    try {
+      await onSend(text);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isMenuOpen) {
+      if (
+        suggestions.length > 0 &&
+        (e.key === "ArrowDown" || e.key === "ArrowUp")
+      ) {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted(
+          (i) => (i + step + suggestions.length) % suggestions.length,
+        );
+        return;
+      }
+      if (suggestions.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+        e.preventDefault();
+        insertSnippet(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    // Enter sends, Shift+Enter inserts a newline
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  if (disabled) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-dashed p-3 text-sm text-muted-foreground">
+        <Lock className="h-4 w-4" />
+        {disabledReason || "Replies are disabled"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-end gap-2">
+      <Textarea
+        ref={textareaRef}
+        value={content}
+        onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        placeholder={
+          snippets.length > 0
+            ? "Type a reply... (Enter to send, / for snippets)"
+            : "Type a reply... (Enter to send, Shift+Enter for new line)"
+        }
+        className="min-h-[60px] max-h-40 resize-none"
+        disabled={isSending}
+      />
+      <Button
+        onClick={handleSend}
+        disabled={!canSend}
+        size="icon"
+        title="Send message"
+      >
+        {isSending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Send className="h-4 w-4" />
+        )}
+      </Button>
+
+      {isMenuOpen && (
+        // mousedown fires before the textarea's blur, so the menu keeps focus
+        // in the textarea while it is used
+        <div
+          className="absolute bottom-full left-0 z-10 mb-1 w-80 rounded-md border bg-popover p-1 shadow-md"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {menuLanguages.length > 1 && (
+            <div className="flex gap-1 border-b px-1 pb-1 mb-1">
+              {menuLanguages.map((code) => (
+                <button
+                  key={code}
+                  type="button"
+                  onClick={() => {
+                    setLanguage(code);
+                    setHighlighted(0);
+                  }}
+                  className={cn(
+                    "rounded px-2 py-0.5 text-xs",
+                    code === activeLanguage
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:bg-accent",
+                  )}
+                >
+                  {getLanguageLabel(code)}
+                </button>
+              ))}
+            </div>
+          )}
+          {suggestions.length > 0 ? (
+            <ul role="listbox">
+              {suggestions.map((snippet, i) => (
+                <li
+                  key={snippet.id}
+                  role="option"
+                  aria-selected={i === highlighted}
+                  onClick={() => insertSnippet(snippet)}
+                  className={cn(
+                    "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                    i === highlighted && "bg-accent text-accent-foreground",
+                  )}
+                >
+                  <p className="truncate">
+                    <span className="font-mono">/{snippet.shortcut}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {snippet.title}
+                    </span>
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {truncate(snippet.body, 80)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No snippet matches /{query}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AlertTriangle, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { createLead, findLeadByPhone } from "@/lib/leads";
+import { formatPhone, normalizePhone } from "@/lib/utils";
+import {
+  leadCreateSchema,
+  type LeadCreate,
+  type LeadCreateInput,
+} from "@/schemas/lead";
+import type { Lead } from "@/types";
+
+interface NewLeadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (lead: Lead) => void;
+  onOpenExisting: (lead: Lead) => void;
+}
+
+const DEFAULT_VALUES: LeadCreateInput = {
+  phone: "",
+  contact_name: "",
+  company_name: "",
+  qualification_score: "new",
+  status: "new",
+  notes: "",
+};
+
+export function NewLeadDialog({
+  open,
+  onOpenChange,
+  onCreated,
+  onOpenExisting,
+}: NewLeadDialogProps) {
+  const { organization, user } = useAuthStore();
+  const [duplicate, setDuplicate] = useState<Lead | null>(null);
+  const [isCheckingPhone, setIsCheckingPhone] = useState(false);
+
+  const form = useForm<LeadCreateInput, unknown, LeadCreate>({
+    resolver: zodResolver(leadCreateSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  const checkDuplicate = async (rawPhone: string): Promise<Lead | null> => {
+    const phone = normalizePhone(rawPhone);
+    if (!organization?.id || phone.length < 10) {
+      setDuplicate(null);
+      return null;
+    }
+
+    setIsCheckingPhone(true);
+    try {
+      const existing = await findLeadByPhone(organization.id, phone);
+      setDuplicate(existing);
+      return existing;
+    } catch (error) {
+      console.error("Error checking for duplicate lead:", error);
+      return null;
+    } finally {
+      setIsCheckingPhone(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      form.reset(DEFAULT_VALUES);
+      setDuplicate(null);
+    }
+    onOpenChange(next);
+  };
+
+  const onSubmit = async (values: LeadCreate) => {
+    if (!organization?.id) return;
+
+    // Re-check on submit - the phone may have changed since blur
+    const existing = await checkDuplicate(values.phone);
+    if (existing) return;
+
+    try {
+      const lead = await createLead(organization.id, values, user);
+      toast.success(
+        `Lead ${lead.contact_name || formatPhone(lead.phone)} created`,
+      );
+      handleOpenChange(false);
+      onCreated(lead);
+    } catch (error) {
+      console.error("Error creating lead:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create lead",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Lead</DialogTitle>
+          <DialogDescription>
+            Add a lead that came in outside of WhatsApp, e.g. by phone
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="tel"
+                      placeholder="+7 999 123 4567"
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        setDuplicate(null);
+                      }}
+                      onBlur={() => {
+                        field.onBlur();
+                        checkDuplicate(field.value);
+                      }}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Include the country code. Spaces, dashes and a leading 8 are
+                    normalized automatically.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {duplicate && (
+              <div className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5" />
+                <div className="flex-1 text-sm text-amber-800">
+                  A lead with this phone already exists:{" "}
+                  <strong>
+                    {duplicate.contact_name || formatPhone(duplicate.phone)}
+                  </strong>
+                  {duplicate.company_name && ` (${duplicate.company_name})`}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    handleOpenChange(false);
+                    onOpenExisting(duplicate);
+                  }}
+                >
+                  Open
+                </Button>
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="contact_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="company_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="qualification_score"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Score</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="new">New</SelectItem>
+                        <SelectItem value="hot">Hot</SelectItem>
+                        <SelectItem value="warm">Warm</SelectItem>
+                        <SelectItem value="cold">Cold</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="new">New</SelectItem>
+                        <SelectItem value="qualified">Qualified</SelectItem>
+                        <SelectItem value="scheduled">Scheduled</SelectItem>
+                        <SelectItem value="converted">Converted</SelectItem>
+                        <SelectItem value="lost">Lost</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={
+                  form.formState.isSubmitting || isCheckingPhone || !!duplicate
+                }
+              >
+                {form.formState.isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Create Lead
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import type { ReactNode } from "react";
+import type { LeadNoteMention } from "@/types";
+
+interface NoteBodyProps {
+  body: string;
+  mentions?: LeadNoteMention[];
+}
+
+interface InlineRule {
+  pattern: RegExp;
+  render: (match: RegExpExecArray, key: string) => ReactNode;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The small markdown subset notes need: **bold**, *italic*, `code`,
+// [links](https://...) and @mentions. Only http(s) links are rendered as
+// links, so a note can't smuggle in a javascript: URL.
+const BASE_RULES: InlineRule[] = [
+  {
+    pattern: /`([^`\n]+)`/,
+    render: (m, key) => (
+      <code key={key} className="rounded bg-muted px-1 font-mono text-xs">
+        {m[1]}
+      </code>
+    ),
+  },
+  {
+    pattern: /\*\*([^*\n]+)\*\*/,
+    render: (m, key) => <strong key={key}>{m[1]}</strong>,
+  },
+  {
+    pattern: /(?:\*([^*\n]+)\*|_([^_\n]+)_)/,
+    render: (m, key) => <em key={key}>{m[1] ?? m[2]}</em>,
+  },
+  {
+    pattern: /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/,
+    render: (m, key) => (
+      <a
+        key={key}
+        href={m[2]}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary underline underline-offset-2"
+      >
+        {m[1]}
+      </a>
+    ),
+  },
+];
+
+const mentionRule = (mentions: LeadNoteMention[]): InlineRule | null => {
+  if (mentions.length === 0) return null;
+  // Longest names first so "@Ann Lee" wins over "@Ann"
+  const names = [...new Set(mentions.map((m) => m.name))]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return {
+    pattern: new RegExp(`@(${names.join("|")})(?![\\w])`),
+    render: (m, key) => (
+      <span
+        key={key}
+        className="rounded bg-primary/10 px-0.5 font-medium text-primary"
+      >
+        @{m[1]}
+      </span>
+    ),
+  };
+};
+
+// Render inline markup by repeatedly taking the earliest match
+const renderInline = (text: string, rules: InlineRule[], keyPrefix: string) => {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  let index = 0;
+
+  while (rest) {
+    let best: { rule: InlineRule; match: RegExpExecArray } | null = null;
+    for (const rule of rules) {
+      const match = rule.pattern.exec(rest);
+      if (match && (!best || match.index < best.match.index)) {
+        best = { rule, match };
+      }
+    }
+    if (!best) {
+      nodes.push(rest);
+      break;
+    }
+    if (best.match.index > 0) nodes.push(rest.slice(0, best.match.index));
+    nodes.push(best.rule.render(best.match, `${keyPrefix}-${index++}`));
+    rest = rest.slice(best.match.index + best.match[0].length);
+  }
+
+  return nodes;
+};
+
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+export function NoteBody({ body, mentions = [] }: NoteBodyProps) {
+  const mention = mentionRule(mentions);
+  const rules = mention ? [mention, ...BASE_RULES] : BASE_RULES;
+
+  // Blank lines separate blocks; a block of "- " lines is a list
+  const blocks = body.trim().split(/\n\s*\n/);
+
+  return (
+    <div className="space-y-2 text-sm break-words">
+      {blocks.map((block, b) => {
+        const lines = block.split("\n");
+        if (lines.every((line) => LIST_ITEM.test(line))) {
+          return (
+            <ul key={b} className="list-disc space-y-0.5 pl-5">
+              {lines.map((line, l) => (
+                <li key={l}>
+                  {renderInline(
+                    line.replace(LIST_ITEM, ""),
+                    rules,
+                    `${b}-${l}`,
+                  )}
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        return (
+          <p key={b}>
+            {lines.map((line, l) => (
+              <span key={l}>
+                {l > 0 && <br />}
+                {renderInline(line, rules, `${b}-${l}`)}
+              </span>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useRef, useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { collectMentions, getMentionName } from "@/lib/leadNotes";
+import { cn } from "@/lib/utils";
+import { leadNoteSchema } from "@/schemas/note";
+import type { LeadNoteMention, TeamMember } from "@/types";
+
+interface NoteComposerProps {
+  members: TeamMember[];
+  initialBody?: string;
+  initialMentions?: LeadNoteMention[];
+  placeholder?: string;
+  submitLabel?: string;
+  autoFocus?: boolean;
+  onSubmit: (note: {
+    body: string;
+    mentions: LeadNoteMention[];
+  }) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// "@" at the start of the text or after whitespace, up to the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+
+export function NoteComposer({
+  members,
+  initialBody = "",
+  initialMentions = [],
+  placeholder = "Add an internal note... Use @ to mention a teammate",
+  submitLabel = "Add note",
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: NoteComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState(initialBody);
+  // Every member picked from the menu; pruned to what's still in the body
+  // when submitting
+  const [picked, setPicked] = useState<LeadNoteMention[]>(initialMentions);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsed = leadNoteSchema.safeParse({ body });
+  const error =
+    body.trim() && !parsed.success ? parsed.error.issues[0]?.message : null;
+  const canSubmit = parsed.success && !isSubmitting;
+
+  const suggestions =
+    query === null
+      ? []
+      : members
+          .filter((member) =>
+            [member.name, member.email].some((value) =>
+              value?.toLowerCase().includes(query.toLowerCase()),
+            ),
+          )
+          .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+    setHighlighted(0);
+  };
+
+  const insertMention = (member: TeamMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+
+    const name = getMentionName(member);
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1;
+    const next = `${body.slice(0, start)}@${name} ${body.slice(caret)}`;
+    setBody(next);
+    setPicked((prev) => [...prev, { member_id: member.id, name }]);
+    setQuery(null);
+
+    const position = start + name.length + 2;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      const text = parsed.data.body;
+      await onSubmit({ body: text, mentions: collectMentions(text, picked) });
+      setBody("");
+      setPicked([]);
+    } catch {
+      // The caller reports the error; keep the draft so nothing is lost
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted(
+          (i) => (i + step + suggestions.length) % suggestions.length,
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    // Enter adds a line (notes are markdown); Ctrl/Cmd+Enter saves
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape" && onCancel) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setQuery(null)}
+          placeholder={placeholder}
+          className="min-h-[72px] max-h-60"
+          disabled={isSubmitting}
+          autoFocus={autoFocus}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute left-0 top-full z-10 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md"
+          >
+            {suggestions.map((member, i) => (
+              <li
+                key={member.id}
+                role="option"
+                aria-selected={i === highlighted}
+                // mousedown fires before the textarea's blur
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                className={cn(
+                  "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                  i === highlighted && "bg-accent text-accent-foreground",
+                )}
+              >
+                <p className="truncate">{getMentionName(member)}</p>
+                {member.name && member.email && (
+                  <p className="truncate text-xs text-muted-foreground">
+                    {member.email}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p
+          className={cn(
+            "text-xs",
+            error ? "text-destructive" : "text-muted-foreground",
+          )}
+        >
+          {error || "**bold**, *italic*, `code`, - lists · Ctrl+Enter to save"}
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
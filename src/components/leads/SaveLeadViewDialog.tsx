@@ -0,0 +1,154 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuthStore } from "@/stores/authStore";
+import { createLeadView, updateLeadView } from "@/lib/leadViews";
+import { leadViewSchema, type LeadViewInput } from "@/schemas/lead";
+import type { LeadView, LeadViewFilters } from "@/types";
+
+interface SaveLeadViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Filters to save; ignored when renaming an existing view
+  filters: LeadViewFilters;
+  view?: LeadView | null;
+  onSaved: (view: LeadView) => void;
+}
+
+export function SaveLeadViewDialog({
+  open,
+  onOpenChange,
+  filters,
+  view,
+  onSaved,
+}: SaveLeadViewDialogProps) {
+  const { organization, user } = useAuthStore();
+
+  const form = useForm<LeadViewInput>({
+    resolver: zodResolver(leadViewSchema),
+    defaultValues: { name: "", shared: false },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: view?.name ?? "",
+        shared: view?.scope === "organization",
+      });
+    }
+  }, [open, view]);
+
+  const onSubmit = async ({ name, shared }: LeadViewInput) => {
+    if (!organization?.id || !user) return;
+
+    const scope = shared ? "organization" : "personal";
+    try {
+      const saved = view
+        ? await updateLeadView(view.id, { name, scope })
+        : await createLeadView(organization.id, { name, scope, filters }, user);
+      toast.success(view ? "View updated" : `View "${saved.name}" saved`);
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving lead view:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save view",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{view ? "Edit View" : "Save View"}</DialogTitle>
+          <DialogDescription>
+            {view
+              ? "Rename the view or change who can see it"
+              : "Save the current filters as a view in the Leads sidebar"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Hot & unassigned" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="shared"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Share with organization</FormLabel>
+                    <FormDescription>
+                      Everyone in {organization?.name || "the organization"}{" "}
+                      will see this view
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
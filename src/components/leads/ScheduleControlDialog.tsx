@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  format,
+  nextMonday,
+  set,
+} from "date-fns";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type ScheduleKind = "release" | "pause";
+
+interface ScheduleControlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: ScheduleKind;
+  onConfirm: (at: Date) => Promise<void>;
+}
+
+const atNine = (date: Date) =>
+  set(date, { hours: 9, minutes: 0, seconds: 0, milliseconds: 0 });
+
+const PRESETS: Record<ScheduleKind, { label: string; at: () => Date }[]> = {
+  release: [
+    { label: "In 30 minutes", at: () => addMinutes(new Date(), 30) },
+    { label: "In 2 hours", at: () => addHours(new Date(), 2) },
+    { label: "Tomorrow 9:00", at: () => atNine(addDays(new Date(), 1)) },
+  ],
+  pause: [
+    { label: "For 1 hour", at: () => addHours(new Date(), 1) },
+    { label: "Tomorrow 9:00", at: () => atNine(addDays(new Date(), 1)) },
+    { label: "Monday 9:00", at: () => atNine(nextMonday(new Date())) },
+  ],
+};
+
+const COPY: Record<ScheduleKind, { title: string; description: string }> = {
+  release: {
+    title: "Schedule Release",
+    description:
+      "Hand the conversation back to the agent at a set time, instead of after the auto-release window",
+  },
+  pause: {
+    title: "Pause Agent",
+    description:
+      "The agent stops replying now and picks the conversation back up at this time",
+  },
+};
+
+// datetime-local inputs work in the browser's local time
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ScheduleControlDialog({
+  open,
+  onOpenChange,
+  kind,
+  onConfirm,
+}: ScheduleControlDialogProps) {
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setValue(toInputValue(PRESETS[kind][0].at()));
+  }, [open, kind]);
+
+  const at = value ? new Date(value) : null;
+  const isValid = !!at && !isNaN(at.getTime()) && at.getTime() > Date.now();
+
+  const handleConfirm = async () => {
+    if (!at || !isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(at);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{COPY[kind].title}</DialogTitle>
+          <DialogDescription>{COPY[kind].description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {PRESETS[kind].map((preset) => (
+              <Button
+                key={preset.label}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setValue(toInputValue(preset.at()))}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-at">
+              {kind === "pause" ? "Resume agent at" : "Release at"}
+            </Label>
+            <Input
+              id="schedule-at"
+              type="datetime-local"
+              value={value}
+              min={toInputValue(new Date())}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            {value && !isValid && (
+              <p className="text-sm text-destructive">
+                Pick a time in the future
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarClock className="h-4 w-4 mr-2" />
+            )}
+            {kind === "pause" ? "Pause" : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
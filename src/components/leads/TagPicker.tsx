@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Loader2, Tag as TagIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { resolveTags } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import type { Tag } from "@/types";
+
+// Tag chip in the team colour style: a coloured dot and the name
+export function TagBadge({ tag, className }: { tag: Tag; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn("gap-1.5 font-normal", className)}>
+      <span
+        className="h-2 w-2 rounded-full"
+        style={{ backgroundColor: tag.color }}
+      />
+      {tag.name}
+    </Badge>
+  );
+}
+
+interface TagPickerProps {
+  tags: Tag[];
+  value?: string[];
+  // Persists the new tag list; reports its own errors
+  onChange: (tagIds: string[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Applied tags plus a menu to toggle them
+export function TagPicker({
+  tags,
+  value = [],
+  onChange,
+  disabled,
+}: TagPickerProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const applied = resolveTags(tags, value);
+
+  // One toggle at a time so a second click never works from stale ids
+  const toggle = async (tagId: string, checked: boolean) => {
+    setIsSaving(true);
+    try {
+      await onChange(
+        checked ? [...value, tagId] : value.filter((id) => id !== tagId),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {applied.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} />
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-muted-foreground"
+            disabled={disabled}
+          >
+            {isSaving ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <TagIcon className="h-3 w-3 mr-1" />
+            )}
+            {applied.length > 0 ? "Edit" : "Add tag"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48">
+          <DropdownMenuLabel>Tags</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {tags.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              No tags yet. Create them in Settings.
+            </p>
+          ) : (
+            tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={value.includes(tag.id)}
+                disabled={isSaving}
+                onCheckedChange={(checked) => toggle(tag.id, checked)}
+                // Keep the menu open to toggle several tags
+                onSelect={(e) => e.preventDefault()}
+              >
+                <span
+                  className="mr-2 h-2 w-2 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
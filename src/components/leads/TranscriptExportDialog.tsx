@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import {
+  exportTranscriptsInRange,
+  type TranscriptFormat,
+} from "@/lib/transcripts";
+
+interface TranscriptExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FORMAT_OPTIONS: { value: TranscriptFormat; label: string }[] = [
+  { value: "pdf", label: "PDF (print)" },
+  { value: "html", label: "HTML" },
+  { value: "json", label: "JSON (raw)" },
+];
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function TranscriptExportDialog({
+  open,
+  onOpenChange,
+}: TranscriptExportDialogProps) {
+  const { organization } = useAuthStore();
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [fileFormat, setFileFormat] = useState<TranscriptFormat>("pdf");
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Default to the last seven days each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDateFrom(toDateInput(subDays(new Date(), 6)));
+      setDateTo(toDateInput(new Date()));
+    }
+  }, [open]);
+
+  const isRangeValid = !!dateFrom && !!dateTo && dateFrom <= dateTo;
+
+  const handleExport = async () => {
+    if (!organization?.id || !isRangeValid) return;
+
+    setIsExporting(true);
+    try {
+      const count = await exportTranscriptsInRange(
+        organization.id,
+        dateFrom,
+        dateTo,
+        fileFormat,
+      );
+      if (count === 0) {
+        toast.info("No conversations in that date range");
+        return;
+      }
+      toast.success(`Exported ${count} conversations`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error exporting transcripts:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export transcripts",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Transcripts</DialogTitle>
+          <DialogDescription>
+            Every conversation with messages in the range, with each lead's
+            details and escalation reason
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transcripts-from">From</Label>
+              <Input
+                id="transcripts-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo}
+                onChange={(e) => setDateFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transcripts-to">To</Label>
+              <Input
+                id="transcripts-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom}
+                onChange={(e) => setDateTo(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={fileFormat}
+              onValueChange={(value) =>
+                setFileFormat(value as TranscriptFormat)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMAT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={!isRangeValid || isExporting}
+          >
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
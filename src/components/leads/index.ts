@@ -1,3 +1,25 @@
 export { LeadInfoCard } from "./LeadInfoCard";
 export { ConversationSection } from "./ConversationSection";
 export { LeadDetailPanel } from "./LeadDetailPanel";
+export { MessageComposer } from "./MessageComposer";
+export {
+  LeadBoard,
+  BOARD_SCORES,
+  LEAD_STATUS_COLUMNS,
+  type LeadBoardColumn,
+  type LeadBoardColumns,
+} from "./LeadBoard";
+export { LeadEditForm } from "./LeadEditForm";
+export { LeadTimeline } from "./LeadTimeline";
+export { LeadNotes } from "./LeadNotes";
+export { LeadCalls } from "./LeadCalls";
+export { NewLeadDialog } from "./NewLeadDialog";
+export { LeadAssigneeSelect } from "./LeadAssigneeSelect";
+export { LeadBulkActionBar } from "./LeadBulkActionBar";
+export { LeadImportDialog } from "./LeadImportDialog";
+export { TranscriptExportDialog } from "./TranscriptExportDialog";
+export { LeadMergeDialog } from "./LeadMergeDialog";
+export { CustomFieldInput } from "./CustomFieldInput";
+export { LeadViewsSidebar } from "./LeadViewsSidebar";
+export { SaveLeadViewDialog } from "./SaveLeadViewDialog";
+export { TagPicker, TagBadge } from "./TagPicker";
@@ -0,0 +1,115 @@
+import { format } from "date-fns";
+import { Bot, User, UserCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { getSearchSnippet } from "@/lib/conversationSearch";
+import { cn, formatPhone } from "@/lib/utils";
+import type { MessageSearchHit, MessageSenderType } from "@/types";
+
+interface MessageSearchResultProps {
+  hit: MessageSearchHit;
+  terms: string[];
+  isSelected: boolean;
+  onSelect: () => void;
+}
+
+const SENDER_ICONS: Record<MessageSenderType, typeof User> = {
+  lead: User,
+  staff: UserCheck,
+  agent: Bot,
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function HighlightedText({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+
+  // Longest terms first so a phrase wins over the words inside it
+  const pattern = new RegExp(
+    `(${[...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "gi",
+  );
+  // split() with a capture group puts the matches at the odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-yellow-200 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+export function MessageSearchResult({
+  hit,
+  terms,
+  isSelected,
+  onSelect,
+}: MessageSearchResultProps) {
+  const { message, lead } = hit;
+  const SenderIcon = SENDER_ICONS[message.sender_type];
+  const sender =
+    message.sender_name ||
+    (message.sender_type === "lead"
+      ? "Lead"
+      : message.sender_type === "staff"
+        ? "Staff"
+        : "Agent");
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "w-full rounded-lg border-2 p-3 text-left transition-all hover:border-blue-300",
+        isSelected ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white",
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="truncate font-medium">
+          {lead.contact_name || formatPhone(lead.phone)}
+          {lead.company_name && (
+            <span className="font-normal text-muted-foreground">
+              {" "}
+              · {lead.company_name}
+            </span>
+          )}
+        </p>
+        <span
+          className="shrink-0 text-xs text-muted-foreground"
+          title={format(new Date(message.created_at), "PPpp")}
+        >
+          {format(new Date(message.created_at), "MMM d, HH:mm")}
+        </span>
+      </div>
+      <p className="mt-1 text-sm break-words">
+        <HighlightedText
+          text={getSearchSnippet(message.content, terms)}
+          terms={terms}
+        />
+      </p>
+      <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+        <SenderIcon className="h-3 w-3" />
+        {sender}
+        {lead.session && lead.session.control_mode !== "agent" && (
+          <Badge
+            variant={
+              lead.session.control_mode === "human" ? "escalated" : "paused"
+            }
+            className="ml-auto text-xs"
+          >
+            {lead.session.control_mode === "human" ? "Escalated" : "Paused"}
+          </Badge>
+        )}
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1 @@
+export { MessageSearchResult } from "./MessageSearchResult";
@@ -180,6 +180,7 @@ export function NotificationPreferences({
         </div>
         <CardDescription>
           Choose how you want to be notified when new discovery calls are booked
+          or a teammate @mentions you in a lead note
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -198,7 +199,7 @@ export function NotificationPreferences({
             <div>
               <Label className="font-medium">Email Notifications</Label>
               <p className="text-xs text-muted-foreground">
-                Receive booking confirmations via email
+                Receive booking confirmations and mentions via email
               </p>
             </div>
           </div>
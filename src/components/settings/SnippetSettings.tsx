@@ -0,0 +1,442 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Loader2,
+  MessageSquareText,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import {
+  SNIPPET_VARIABLES,
+  createSnippet,
+  deleteSnippet,
+  fetchSnippets,
+  updateSnippet,
+} from "@/lib/snippets";
+import { getLanguageLabel, LANGUAGES, truncate } from "@/lib/utils";
+import { snippetSchema, type SnippetInput } from "@/schemas/snippet";
+import type { Snippet } from "@/types";
+
+interface SnippetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  snippet?: Snippet | null;
+  languages: string[];
+  onSaved: (snippet: Snippet) => void;
+}
+
+function SnippetDialog({
+  open,
+  onOpenChange,
+  snippet,
+  languages,
+  onSaved,
+}: SnippetDialogProps) {
+  const { organization } = useAuthStore();
+
+  const form = useForm<SnippetInput>({
+    resolver: zodResolver(snippetSchema),
+    defaultValues: { shortcut: "", title: "", language: "", body: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        shortcut: snippet?.shortcut ?? "",
+        title: snippet?.title ?? "",
+        language: snippet?.language ?? languages[0] ?? "",
+        body: snippet?.body ?? "",
+      });
+    }
+  }, [open, snippet]);
+
+  const insertVariable = (name: string) => {
+    const body = form.getValues("body");
+    form.setValue("body", `${body}{{${name}}}`, { shouldDirty: true });
+  };
+
+  const onSubmit = async (values: SnippetInput) => {
+    if (!organization?.id) return;
+
+    try {
+      const saved = snippet
+        ? await updateSnippet(snippet.id, values)
+        : await createSnippet(organization.id, values);
+      toast.success(
+        snippet ? "Snippet updated" : `Snippet /${saved.shortcut} created`,
+      );
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving snippet:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save snippet",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{snippet ? "Edit Snippet" : "New Snippet"}</DialogTitle>
+          <DialogDescription>
+            Type / followed by the shortcut in a conversation reply to insert it
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="shortcut"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shortcut</FormLabel>
+                    <FormControl>
+                      <div className="flex items-center gap-1">
+                        <span className="text-muted-foreground">/</span>
+                        <Input placeholder="pricing" {...field} />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Language</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select language" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {languages.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {getLanguageLabel(code)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Pricing overview" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reply</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Hi {{contact_name}}, our plans start at..."
+                      className="min-h-[120px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription className="flex flex-wrap items-center gap-1">
+                    Insert:
+                    {Object.entries(SNIPPET_VARIABLES).map(
+                      ([name, description]) => (
+                        <button
+                          key={name}
+                          type="button"
+                          title={description}
+                          onClick={() => insertVariable(name)}
+                          className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs hover:bg-muted/70"
+                        >
+                          {`{{${name}}}`}
+                        </button>
+                      ),
+                    )}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SnippetSettings() {
+  const { organization, user } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [snippetToEdit, setSnippetToEdit] = useState<Snippet | null>(null);
+  const [snippetToDelete, setSnippetToDelete] = useState<Snippet | null>(null);
+  const canManage =
+    user?.role === "admin" || user?.role === "manager" || user?.is_superadmin;
+
+  // The agent's languages, primary first; every language until configured
+  const languages = config
+    ? [
+        config.primary_language,
+        ...config.supported_languages.filter(
+          (code) => code !== config.primary_language,
+        ),
+      ]
+    : LANGUAGES.map((lang) => lang.value);
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    if (config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+    setIsLoading(true);
+    fetchSnippets(organization.id)
+      .then(setSnippets)
+      .catch((error) => {
+        console.error("Error fetching snippets:", error);
+      })
+      .finally(() => setIsLoading(false));
+  }, [organization?.id]);
+
+  const handleSaved = (saved: Snippet) => {
+    setSnippets((prev) =>
+      [...prev.filter((s) => s.id !== saved.id), saved].sort((a, b) =>
+        a.shortcut.localeCompare(b.shortcut),
+      ),
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!snippetToDelete) return;
+
+    const deleted = snippetToDelete;
+    setSnippetToDelete(null);
+    try {
+      await deleteSnippet(deleted.id);
+      setSnippets((prev) => prev.filter((s) => s.id !== deleted.id));
+      toast.success(`Snippet /${deleted.shortcut} deleted`);
+    } catch (error) {
+      console.error("Error deleting snippet:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete snippet",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <MessageSquareText className="h-5 w-5" />
+            <div>
+              <CardTitle>Snippets</CardTitle>
+              <CardDescription>
+                Canned replies for escalated conversations, per language
+              </CardDescription>
+            </div>
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSnippetToEdit(null);
+                setIsDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Snippet
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : snippets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No snippets yet. Save the pricing and scheduling answers your team
+            keeps retyping, then insert them with /shortcut.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {snippets.map((snippet) => (
+              <li
+                key={snippet.id}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm">
+                      /{snippet.shortcut}
+                    </span>
+                    <span className="truncate text-sm font-medium">
+                      {snippet.title}
+                    </span>
+                    <Badge variant="outline" className="text-xs">
+                      {getLanguageLabel(snippet.language)}
+                    </Badge>
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {truncate(snippet.body, 120)}
+                  </p>
+                </div>
+                {canManage && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setSnippetToEdit(snippet);
+                        setIsDialogOpen(true);
+                      }}
+                      title="Edit snippet"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => setSnippetToDelete(snippet)}
+                      title="Delete snippet"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <SnippetDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        snippet={snippetToEdit}
+        languages={languages}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={!!snippetToDelete}
+        onOpenChange={(open) => !open && setSnippetToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Snippet</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>/{snippetToDelete?.shortcut}</strong> (
+              {snippetToDelete && getLanguageLabel(snippetToDelete.language)})?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
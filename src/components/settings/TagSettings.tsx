@@ -0,0 +1,404 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Pencil, Plus, Save, Tags, Trash2, Zap } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { TagBadge } from "@/components/leads";
+import { useAuthStore } from "@/stores/authStore";
+import { createTag, deleteTag, fetchTags, updateTag } from "@/lib/tags";
+import { SWATCH_COLORS } from "@/lib/utils";
+import { tagSchema, type TagInput } from "@/schemas/tag";
+import type { Tag } from "@/types";
+
+function KeywordsEditor({
+  keywords,
+  onChange,
+}: {
+  keywords: string[];
+  onChange: (keywords: string[]) => void;
+}) {
+  const [newKeyword, setNewKeyword] = useState("");
+
+  const addKeyword = () => {
+    const keyword = newKeyword.trim().toLowerCase();
+    if (!keyword || keywords.includes(keyword)) return;
+    onChange([...keywords, keyword]);
+    setNewKeyword("");
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <Input
+          placeholder="Add keyword (e.g., pricing, invoice)"
+          value={newKeyword}
+          onChange={(e) => setNewKeyword(e.target.value)}
+          onKeyDown={(e) =>
+            e.key === "Enter" && (e.preventDefault(), addKeyword())
+          }
+        />
+        <Button type="button" onClick={addKeyword} variant="outline">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {keywords.map((keyword) => (
+          <Badge
+            key={keyword}
+            variant="secondary"
+            className="cursor-pointer"
+            onClick={() => onChange(keywords.filter((k) => k !== keyword))}
+          >
+            {keyword}
+            <Trash2 className="h-3 w-3 ml-1" />
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface TagDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tag?: Tag | null;
+  onSaved: (tag: Tag) => void;
+}
+
+function TagDialog({ open, onOpenChange, tag, onSaved }: TagDialogProps) {
+  const { organization } = useAuthStore();
+
+  const form = useForm<TagInput>({
+    resolver: zodResolver(tagSchema),
+    defaultValues: { name: "", color: SWATCH_COLORS[0], keywords: [] },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: tag?.name ?? "",
+        color: tag?.color ?? SWATCH_COLORS[0],
+        keywords: tag?.keywords ?? [],
+      });
+    }
+  }, [open, tag]);
+
+  const onSubmit = async (values: TagInput) => {
+    if (!organization?.id) return;
+
+    try {
+      const saved = tag
+        ? await updateTag(tag.id, values)
+        : await createTag(organization.id, values);
+      toast.success(tag ? "Tag updated" : `Tag "${saved.name}" created`);
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving tag:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save tag",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{tag ? "Edit Tag" : "New Tag"}</DialogTitle>
+          <DialogDescription>
+            Tags label leads and conversations across the organization
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Partner referral" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {SWATCH_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={`h-8 w-8 rounded-full transition-all ${
+                          field.value === color
+                            ? "ring-2 ring-offset-2 ring-primary"
+                            : "hover:scale-110"
+                        }`}
+                        style={{ backgroundColor: color }}
+                        onClick={() => field.onChange(color)}
+                      />
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="keywords"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Auto-apply Keywords</FormLabel>
+                  <FormDescription>
+                    Conversations (and their leads) are tagged when the lead
+                    writes one of these words
+                  </FormDescription>
+                  <KeywordsEditor
+                    keywords={field.value}
+                    onChange={field.onChange}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function TagSettings() {
+  const { organization, user } = useAuthStore();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [tagToEdit, setTagToEdit] = useState<Tag | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+  const canManage =
+    user?.role === "admin" || user?.role === "manager" || user?.is_superadmin;
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    setIsLoading(true);
+    fetchTags(organization.id)
+      .then(setTags)
+      .catch((error) => {
+        console.error("Error fetching tags:", error);
+      })
+      .finally(() => setIsLoading(false));
+  }, [organization?.id]);
+
+  const handleSaved = (saved: Tag) => {
+    setTags((prev) =>
+      [...prev.filter((t) => t.id !== saved.id), saved].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!tagToDelete) return;
+
+    const deleted = tagToDelete;
+    setTagToDelete(null);
+    try {
+      await deleteTag(deleted.id);
+      setTags((prev) => prev.filter((t) => t.id !== deleted.id));
+      toast.success(`Tag "${deleted.name}" deleted`);
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete tag",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Tags className="h-5 w-5" />
+            <div>
+              <CardTitle>Tags</CardTitle>
+              <CardDescription>
+                Label leads and conversations, by hand or by keyword
+              </CardDescription>
+            </div>
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setTagToEdit(null);
+                setIsDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Tag
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No tags yet. Create tags like "Partner", "Pricing question" or
+            "Enterprise" to group leads and filter by them.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {tags.map((tag) => (
+              <li
+                key={tag.id}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div className="flex min-w-0 items-center gap-3">
+                  <TagBadge tag={tag} />
+                  {tag.keywords.length > 0 && (
+                    <span
+                      className="flex min-w-0 items-center gap-1 text-xs text-muted-foreground"
+                      title="Applied automatically when the lead mentions"
+                    >
+                      <Zap className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate">
+                        {tag.keywords.join(", ")}
+                      </span>
+                    </span>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setTagToEdit(tag);
+                        setIsDialogOpen(true);
+                      }}
+                      title="Edit tag"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => setTagToDelete(tag)}
+                      title="Delete tag"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <TagDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        tag={tagToEdit}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog
+        open={!!tagToDelete}
+        onOpenChange={(open) => !open && setTagToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{tagToDelete?.name}</strong>? It will be removed
+              from every lead and conversation.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
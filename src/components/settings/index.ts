@@ -1,2 +1,4 @@
 export { CalendarIntegration } from "./CalendarIntegration";
 export { NotificationPreferences } from "./NotificationPreferences";
+export { TagSettings } from "./TagSettings";
+export { SnippetSettings } from "./SnippetSettings";
@@ -1,5 +1,26 @@
 import { getAccessToken } from "./supabase";
-import type { Team, TeamCreate, TeamMember, MemberUpdate } from "@/types";
+import type {
+  Team,
+  TeamCreate,
+  TeamMember,
+  MemberUpdate,
+  ConversationMessage,
+  StaffMessageCreate,
+  LeadWithSession,
+  LeadListParams,
+  PaginatedResponse,
+  LeadBulkUpdate,
+  LeadBulkDelete,
+  LeadBulkTag,
+  BulkOperationResult,
+  LeadDuplicateGroup,
+  LeadMergeRequest,
+  LeadNote,
+  LeadNoteCreate,
+  Lead,
+  UnifiedLeadFilters,
+  DiscoveryCall,
+} from "@/types";
 
 const BACKEND_URL =
   import.meta.env.VITE_BACKEND_URL ||
@@ -141,3 +162,286 @@ export async function removeMember(id: string): Promise<void> {
     throw new Error(error.detail || "Failed to remove member");
   }
 }
+
+// Conversations API
+export async function sendStaffMessage(
+  sessionId: string,
+  data: StaffMessageCreate,
+): Promise<ConversationMessage> {
+  const token = await getAccessToken();
+  const res = await fetch(
+    `${BACKEND_URL}/api/sales/conversations/${sessionId}/messages`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(data),
+    },
+  );
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to send message" }));
+    throw new Error(error.detail || "Failed to send message");
+  }
+  return res.json();
+}
+
+// Leads API
+export async function fetchLeads(
+  organizationId: string,
+  params: LeadListParams,
+): Promise<PaginatedResponse<LeadWithSession>> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads`);
+  url.searchParams.set("organization_id", organizationId);
+  url.searchParams.set("page", String(params.page));
+  url.searchParams.set("page_size", String(params.pageSize));
+  url.searchParams.set("sort_by", params.sort_by);
+  url.searchParams.set("sort_dir", params.sort_dir);
+  if (params.search) url.searchParams.set("search", params.search);
+  if (params.status) url.searchParams.set("status", params.status);
+  if (params.qualification_score)
+    url.searchParams.set("qualification_score", params.qualification_score);
+  if (params.conversation_status)
+    url.searchParams.set("conversation_status", params.conversation_status);
+  if (params.assigned_rep_id)
+    url.searchParams.set("assigned_rep_id", params.assigned_rep_id);
+  if (params.team_id) url.searchParams.set("team_id", params.team_id);
+  if (params.source) url.searchParams.set("source", params.source);
+  if (params.created_from)
+    url.searchParams.set("created_from", params.created_from);
+  if (params.created_to) url.searchParams.set("created_to", params.created_to);
+  if (params.inactive_hours)
+    url.searchParams.set("inactive_hours", String(params.inactive_hours));
+  if (params.escalated_hours)
+    url.searchParams.set("escalated_hours", String(params.escalated_hours));
+  if (params.custom_fields && Object.keys(params.custom_fields).length > 0)
+    url.searchParams.set("custom_fields", JSON.stringify(params.custom_fields));
+  if (params.tag_id) url.searchParams.set("tag_id", params.tag_id);
+  const res = await fetch(url.toString(), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to fetch leads" }));
+    throw new Error(error.detail || "Failed to fetch leads");
+  }
+  return res.json();
+}
+
+// Counts for several filter sets in one request, keyed like the input
+export async function fetchLeadCounts(
+  organizationId: string,
+  segments: Record<string, UnifiedLeadFilters>,
+): Promise<Record<string, number>> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/counts`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ segments }),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to count leads" }));
+    throw new Error(error.detail || "Failed to count leads");
+  }
+  return res.json();
+}
+
+// Bulk operations run in a single transaction server-side (including the
+// lead history entries), so a failure leaves every lead untouched
+export async function bulkUpdateLeads(
+  organizationId: string,
+  data: LeadBulkUpdate,
+): Promise<BulkOperationResult> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/bulk-update`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to update leads" }));
+    throw new Error(error.detail || "Failed to update leads");
+  }
+  return res.json();
+}
+
+// Array updates can't go through bulk-update's "set every field" model;
+// tags already present (or absent) are left alone
+export async function bulkTagLeads(
+  organizationId: string,
+  data: LeadBulkTag,
+): Promise<BulkOperationResult> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/bulk-tag`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to tag leads" }));
+    throw new Error(error.detail || "Failed to tag leads");
+  }
+  return res.json();
+}
+
+// Deletes the leads together with their conversation sessions, agent
+// sessions and messages
+export async function bulkDeleteLeads(
+  organizationId: string,
+  data: LeadBulkDelete,
+): Promise<BulkOperationResult> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/bulk-delete`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to delete leads" }));
+    throw new Error(error.detail || "Failed to delete leads");
+  }
+  return res.json();
+}
+
+// Notes are created server-side so mentioned members get notified through
+// their notification preferences (email, WhatsApp)
+export async function createLeadNote(
+  organizationId: string,
+  leadId: string,
+  data: LeadNoteCreate,
+): Promise<LeadNote> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/${leadId}/notes`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to add note" }));
+    throw new Error(error.detail || "Failed to add note");
+  }
+  return res.json();
+}
+
+export async function fetchLeadDuplicates(
+  organizationId: string,
+): Promise<LeadDuplicateGroup[]> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/duplicates`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to find duplicates" }));
+    throw new Error(error.detail || "Failed to find duplicates");
+  }
+  return res.json();
+}
+
+// Merges in one transaction and writes the sales.lead_merges audit row
+export async function mergeLeads(
+  organizationId: string,
+  data: LeadMergeRequest,
+): Promise<Lead> {
+  const token = await getAccessToken();
+  const url = new URL(`${BACKEND_URL}/api/sales/leads/merge`);
+  url.searchParams.set("organization_id", organizationId);
+  const res = await fetch(url.toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to merge leads" }));
+    throw new Error(error.detail || "Failed to merge leads");
+  }
+  return res.json();
+}
+
+// Calls API
+
+// Creates, moves or deletes the rep's Google Calendar event to match the
+// call, and returns the call with its google_event_id
+export async function syncCallCalendarEvent(
+  callId: string,
+): Promise<DiscoveryCall> {
+  const token = await getAccessToken();
+  const res = await fetch(
+    `${BACKEND_URL}/api/sales/calls/${callId}/calendar-sync`,
+    {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}` },
+    },
+  );
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to sync calendar event" }));
+    throw new Error(error.detail || "Failed to sync calendar event");
+  }
+  return res.json();
+}
+
+// Runs the org's no-show policy for a call a rep marked no_show: the
+// re-booking message and handing the conversation back to the agent
+export async function applyNoShowPolicy(callId: string): Promise<void> {
+  const token = await getAccessToken();
+  const res = await fetch(`${BACKEND_URL}/api/sales/calls/${callId}/no-show`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ detail: "Failed to apply no-show policy" }));
+    throw new Error(error.detail || "Failed to apply no-show policy");
+  }
+}
@@ -0,0 +1,350 @@
+import {
+  addDays,
+  addMinutes,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isWeekend,
+  parseISO,
+  startOfWeek,
+} from "date-fns";
+import { supabase } from "./supabase";
+import { formatInTimeZone, zonedTimeToDate } from "./utils";
+import { updateLead } from "./leads";
+import type { CallOutcomeInput } from "@/schemas/call";
+import type {
+  CallFilters,
+  CallStatus,
+  CallWithLead,
+  DiscoveryCall,
+  Lead,
+  RepNoShowStats,
+  SalesRepAvailability,
+  SalesUser,
+  TimezoneRegion,
+} from "@/types";
+
+export type CallCalendarView = "day" | "week";
+
+export const CALL_STATUS_LABELS: Record<CallStatus, string> = {
+  scheduled: "Scheduled",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  no_show: "No Show",
+};
+
+// Working hours are read in the time zone of the rep's first region
+export const REGION_TIME_ZONES: Record<TimezoneRegion, string> = {
+  RU: "Europe/Moscow",
+  US_CANADA: "America/New_York",
+  AUSTRALIA_NZ: "Australia/Sydney",
+  EU: "Europe/Berlin",
+  ASIA: "Asia/Singapore",
+};
+
+export const DEFAULT_WORKING_HOURS = { start: "09:00", end: "18:00" };
+
+// Lead statuses a booked call moves forward to "scheduled"
+const PRE_CALL_STATUSES = ["new", "qualified"];
+
+// Helper to fetch the org's discovery calls with their leads, soonest
+// first. from_date and to_date are yyyy-MM-dd and inclusive.
+export const fetchCalls = async (
+  organizationId: string,
+  filters: CallFilters,
+): Promise<CallWithLead[]> => {
+  let query = supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("*, lead:leads(*)")
+    .eq("organization_id", organizationId)
+    .order("scheduled_at", { ascending: true });
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.rep_id) {
+    query = query.eq("rep_id", filters.rep_id);
+  }
+  if (filters.from_date) {
+    query = query.gte(
+      "scheduled_at",
+      parseISO(filters.from_date).toISOString(),
+    );
+  }
+  if (filters.to_date) {
+    query = query.lt(
+      "scheduled_at",
+      addDays(parseISO(filters.to_date), 1).toISOString(),
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as unknown as CallWithLead[]) || [];
+};
+
+// Days shown by the calendar around a date; weeks start on Monday
+export const getCalendarDays = (date: Date, view: CallCalendarView) =>
+  view === "day"
+    ? [date]
+    : eachDayOfInterval({
+        start: startOfWeek(date, { weekStartsOn: 1 }),
+        end: endOfWeek(date, { weekStartsOn: 1 }),
+      });
+
+// The calendar's date range as CallFilters dates
+export const getCalendarRange = (date: Date, view: CallCalendarView) => {
+  const days = getCalendarDays(date, view);
+  return {
+    from_date: format(days[0], "yyyy-MM-dd"),
+    to_date: format(days[days.length - 1], "yyyy-MM-dd"),
+  };
+};
+
+// A call still marked scheduled after it should have ended
+export const isCallOverdue = (call: CallWithLead, now = Date.now()) =>
+  call.status === "scheduled" &&
+  addMinutes(new Date(call.scheduled_at), call.duration_minutes).getTime() <
+    now;
+
+// Helper to fetch calls waiting on an outcome, oldest first. Pass a rep
+// to only get their calls.
+export const fetchOverdueCalls = async (
+  organizationId: string,
+  repId?: string,
+): Promise<CallWithLead[]> => {
+  let query = supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("*, lead:leads(*)")
+    .eq("organization_id", organizationId)
+    .eq("status", "scheduled")
+    .lt("scheduled_at", new Date().toISOString())
+    .order("scheduled_at", { ascending: true });
+
+  if (repId) {
+    query = query.eq("rep_id", repId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data as unknown as CallWithLead[]) || []).filter((call) =>
+    isCallOverdue(call),
+  );
+};
+
+// Helper to count no-shows per rep for calls scheduled in [from, to),
+// highest rate first. Pass rep ids to only count their calls.
+export const fetchNoShowStats = async (
+  organizationId: string,
+  from: Date,
+  to: Date,
+  repIds?: string[],
+): Promise<RepNoShowStats[]> => {
+  if (repIds?.length === 0) return [];
+
+  let query = supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("rep_id, status")
+    .eq("organization_id", organizationId)
+    .in("status", ["completed", "no_show"])
+    .gte("scheduled_at", from.toISOString())
+    .lt("scheduled_at", to.toISOString());
+  if (repIds) {
+    query = query.in("rep_id", repIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const calls = (data as Pick<DiscoveryCall, "rep_id" | "status">[]) || [];
+  const byRep = new Map<string, RepNoShowStats>();
+  for (const call of calls) {
+    const stats = byRep.get(call.rep_id) ?? {
+      rep_id: call.rep_id,
+      due_calls: 0,
+      no_shows: 0,
+    };
+    stats.due_calls += 1;
+    if (call.status === "no_show") stats.no_shows += 1;
+    byRep.set(call.rep_id, stats);
+  }
+  return [...byRep.values()].sort(
+    (a, b) => b.no_shows / b.due_calls - a.no_shows / a.due_calls,
+  );
+};
+
+// Helper to record how a call went, and close the lead as converted or
+// lost when the rep asks to
+export const logCallOutcome = async (
+  call: CallWithLead,
+  input: CallOutcomeInput,
+  actor: SalesUser | null,
+): Promise<CallWithLead> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .update({
+      status: input.status,
+      outcome: input.outcome || null,
+      notes: input.notes || null,
+      next_step: input.next_step || null,
+      follow_up_at: input.follow_up_at || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", call.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  let lead = call.lead;
+  if (lead && input.lead_action !== "keep") {
+    lead = await updateLead(lead, { status: input.lead_action }, actor);
+  }
+  return { ...(data as CallWithLead), lead };
+};
+
+// IANA time zone a rep's working hours are in, falling back to the browser's.
+// A rep can cover several regions, but works one set of hours: those of the
+// first region listed
+export const getRepTimeZone = (rep: SalesRepAvailability) =>
+  rep.timezone_regions?.[0]
+    ? REGION_TIME_ZONES[rep.timezone_regions[0]]
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number) =>
+  [Math.floor(minutes / 60), minutes % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+
+// Free slots in the rep's working hours on a weekday (yyyy-MM-dd, in the
+// rep's time zone), one call length apart, skipping past times and any
+// overlap with the rep's other calls. Slots follow the wall clock, so a
+// DST change neither repeats nor shifts them.
+export const getAvailableSlots = (
+  rep: SalesRepAvailability,
+  day: string,
+  durationMinutes: number,
+  busy: DiscoveryCall[],
+  now = new Date(),
+): Date[] => {
+  if (isWeekend(parseISO(day))) return [];
+
+  const timeZone = getRepTimeZone(rep);
+  const hours = rep.working_hours ?? DEFAULT_WORKING_HOURS;
+
+  const slots: Date[] = [];
+  for (
+    let minutes = toMinutes(hours.start);
+    minutes + durationMinutes <= toMinutes(hours.end);
+    minutes += durationMinutes
+  ) {
+    const time = toTime(minutes);
+    const at = zonedTimeToDate(day, time, timeZone);
+    // Skipped when the clocks go forward
+    if (formatInTimeZone(at, timeZone) !== time) continue;
+
+    const end = addMinutes(at, durationMinutes);
+    const clashes = busy.some((call) => {
+      const start = new Date(call.scheduled_at);
+      return start < end && at < addMinutes(start, call.duration_minutes);
+    });
+    if (at > now && !clashes) slots.push(at);
+  }
+  return slots;
+};
+
+// Helper to fetch a rep's scheduled calls around a day, to find free slots
+export const fetchRepBusyCalls = (
+  organizationId: string,
+  repId: string,
+  day: string,
+) =>
+  fetchCalls(organizationId, {
+    rep_id: repId,
+    status: "scheduled",
+    // A day away on each side covers any time zone
+    from_date: format(addDays(parseISO(day), -1), "yyyy-MM-dd"),
+    to_date: format(addDays(parseISO(day), 1), "yyyy-MM-dd"),
+  });
+
+// Helper to book a call by hand. Moves a lead that hasn't booked yet to
+// "scheduled".
+export const bookCall = async (
+  lead: Lead,
+  values: {
+    rep_id: string;
+    scheduled_at: Date;
+    duration_minutes: number;
+    notes?: string;
+  },
+  actor: SalesUser | null,
+): Promise<CallWithLead> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .insert({
+      organization_id: lead.organization_id,
+      lead_id: lead.id,
+      rep_id: values.rep_id,
+      scheduled_at: values.scheduled_at.toISOString(),
+      duration_minutes: values.duration_minutes,
+      notes: values.notes || null,
+      status: "scheduled",
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const updatedLead = PRE_CALL_STATUSES.includes(lead.status)
+    ? await updateLead(lead, { status: "scheduled" }, actor)
+    : lead;
+  return { ...(data as DiscoveryCall), lead: updatedLead };
+};
+
+// Helper to move a call to another slot or rep
+export const rescheduleCall = async (
+  call: DiscoveryCall,
+  values: { rep_id: string; scheduled_at: Date; duration_minutes: number },
+): Promise<DiscoveryCall> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .update({
+      rep_id: values.rep_id,
+      scheduled_at: values.scheduled_at.toISOString(),
+      duration_minutes: values.duration_minutes,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", call.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as DiscoveryCall;
+};
+
+// Helper to cancel a call. The calendar event is removed on the next sync.
+export const cancelCall = async (
+  call: DiscoveryCall,
+): Promise<DiscoveryCall> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .eq("id", call.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as DiscoveryCall;
+};
@@ -0,0 +1,110 @@
+import { addDays, parseISO } from "date-fns";
+import { supabase } from "./supabase";
+import { attachLeads } from "./inbox";
+import type {
+  ConversationMessage,
+  ConversationSession,
+  MessageSearchFilters,
+  MessageSearchHit,
+} from "@/types";
+
+export const SEARCH_PAGE_SIZE = 50;
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+// Words to highlight: quoted phrases stay whole, operators are dropped
+export const getSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query))) {
+    const term = (match[1] ?? match[2]).trim();
+    if (!term || term.startsWith("-") || term.toLowerCase() === "or") {
+      continue;
+    }
+    terms.push(term);
+  }
+  return terms;
+};
+
+// Cut long messages down to the part around the first matching term
+export const getSearchSnippet = (content: string, terms: string[]) => {
+  const lower = content.toLowerCase();
+  const first = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+  if (first === undefined || content.length <= SNIPPET_CONTEXT * 3) {
+    return content;
+  }
+
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, first + SNIPPET_CONTEXT * 2);
+  return `${start > 0 ? "…" : ""}${content.slice(start, end)}${
+    end < content.length ? "…" : ""
+  }`;
+};
+
+type MessageWithSession = ConversationMessage & {
+  session: ConversationSession;
+};
+
+// Helper to search the organization's messages, newest first. Uses
+// Postgres websearch syntax, so "quoted phrases", OR and -exclusions work.
+// Pass the last message shown to get the next page.
+export const searchMessages = async (
+  organizationId: string,
+  filters: MessageSearchFilters,
+  before?: ConversationMessage,
+): Promise<MessageSearchHit[]> => {
+  let query = supabase
+    .schema("agents")
+    .from("conversation_messages")
+    .select("*, session:conversation_sessions!inner(*)")
+    .eq("session.organization_id", organizationId)
+    .textSearch("content", filters.query, {
+      type: "websearch",
+      config: "simple",
+    })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(SEARCH_PAGE_SIZE);
+
+  if (filters.sender_type) {
+    query = query.eq("sender_type", filters.sender_type);
+  }
+  if (filters.control_mode) {
+    query = query.eq("session.control_mode", filters.control_mode);
+  }
+  if (filters.date_from) {
+    query = query.gte("created_at", parseISO(filters.date_from).toISOString());
+  }
+  if (filters.date_to) {
+    query = query.lt(
+      "created_at",
+      addDays(parseISO(filters.date_to), 1).toISOString(),
+    );
+  }
+  // Continue by (created_at, id), as messages can share a timestamp
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`,
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data as unknown as MessageWithSession[]) || [];
+  const sessions = [
+    ...new Map(rows.map((row) => [row.session.id, row.session])).values(),
+  ];
+  const leads = await attachLeads(organizationId, sessions);
+  const leadsBySession = new Map(leads.map((lead) => [lead.session!.id, lead]));
+
+  return rows.map(({ session, ...message }) => ({
+    message,
+    lead: leadsBySession.get(session.id)!,
+  }));
+};
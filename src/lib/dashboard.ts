@@ -0,0 +1,255 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { supabase } from "./supabase";
+import { zonedTimeToDate } from "./utils";
+import type {
+  DashboardMetrics,
+  DiscoveryCall,
+  Lead,
+  SalesRepAvailability,
+  TeamMember,
+} from "@/types";
+
+export type DashboardRangePreset =
+  | "today"
+  | "yesterday"
+  | "last_7_days"
+  | "last_30_days"
+  | "this_month"
+  | "last_month"
+  | "custom";
+
+export const DASHBOARD_RANGE_LABELS: Record<DashboardRangePreset, string> = {
+  today: "Today",
+  yesterday: "Yesterday",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  this_month: "This month",
+  last_month: "Last month",
+  custom: "Custom range",
+};
+
+// Days in the org's time zone, yyyy-MM-dd and both inclusive
+export interface DashboardRange {
+  from: string;
+  to: string;
+}
+
+// Moments a range starts and ends (exclusive)
+export interface DashboardBounds {
+  start: Date;
+  end: Date;
+}
+
+// Scores the agent gives once it has qualified a lead
+const QUALIFIED_SCORES = ["hot", "warm", "cold"];
+
+const shiftDay = (day: string, amount: number) =>
+  format(addDays(parseISO(day), amount), "yyyy-MM-dd");
+
+// The days a preset covers, counted back from today (yyyy-MM-dd)
+export const getPresetRange = (
+  preset: Exclude<DashboardRangePreset, "custom">,
+  today: string,
+): DashboardRange => {
+  switch (preset) {
+    case "today":
+      return { from: today, to: today };
+    case "yesterday":
+      return { from: shiftDay(today, -1), to: shiftDay(today, -1) };
+    case "last_7_days":
+      return { from: shiftDay(today, -6), to: today };
+    case "last_30_days":
+      return { from: shiftDay(today, -29), to: today };
+    case "this_month":
+      return {
+        from: format(startOfMonth(parseISO(today)), "yyyy-MM-dd"),
+        to: today,
+      };
+    case "last_month": {
+      const month = subMonths(parseISO(today), 1);
+      return {
+        from: format(startOfMonth(month), "yyyy-MM-dd"),
+        to: format(endOfMonth(month), "yyyy-MM-dd"),
+      };
+    }
+  }
+};
+
+// A custom range as given in the URL: days that can't be read become
+// today, and the days are put in order
+export const getCustomRange = (
+  from: string | null,
+  to: string | null,
+  today: string,
+): DashboardRange => {
+  const readDay = (day: string | null) =>
+    day && isValid(parseISO(day)) ? format(parseISO(day), "yyyy-MM-dd") : today;
+  const [start, end] = [readDay(from), readDay(to)].sort();
+  return { from: start, to: end };
+};
+
+// The same number of days right before a range
+export const getPreviousRange = (range: DashboardRange): DashboardRange => {
+  const days =
+    differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+  return { from: shiftDay(range.from, -days), to: shiftDay(range.from, -1) };
+};
+
+export const getRangeBounds = (
+  range: DashboardRange,
+  timeZone: string,
+): DashboardBounds => ({
+  start: zonedTimeToDate(range.from, "00:00", timeZone),
+  end: zonedTimeToDate(shiftDay(range.to, 1), "00:00", timeZone),
+});
+
+// Rep ids whose leads and calls count for a group of members: their own,
+// plus the Agent Config sales reps with the same email, since calls are
+// booked with those
+export const getScopeRepIds = (
+  members: TeamMember[],
+  salesReps: SalesRepAvailability[],
+) => {
+  const emails = new Set(
+    members.map((m) => m.email?.toLowerCase()).filter(Boolean),
+  );
+  return [
+    ...members.map((m) => m.id),
+    ...salesReps
+      .filter((rep) => emails.has(rep.email.toLowerCase()))
+      .map((rep) => rep.id),
+  ];
+};
+
+// Helper to compute the metrics for leads created and calls scheduled
+// within the bounds. Pass rep ids to only count their leads and calls.
+export const fetchDashboardMetrics = async (
+  organizationId: string,
+  bounds: DashboardBounds,
+  repIds?: string[],
+): Promise<DashboardMetrics> => {
+  if (repIds?.length === 0) {
+    return {
+      newLeadsCount: 0,
+      qualifiedLeadsCount: 0,
+      callsCount: 0,
+      conversionRate: 0,
+    };
+  }
+
+  let leadsQuery = supabase
+    .schema("sales")
+    .from("leads")
+    .select("qualification_score, status")
+    .eq("organization_id", organizationId)
+    .gte("created_at", bounds.start.toISOString())
+    .lt("created_at", bounds.end.toISOString());
+  if (repIds) {
+    leadsQuery = leadsQuery.in("assigned_rep_id", repIds);
+  }
+
+  const [leadsResult, callsCount] = await Promise.all([
+    leadsQuery,
+    fetchCallsCount(organizationId, bounds, repIds),
+  ]);
+  if (leadsResult.error) throw leadsResult.error;
+
+  const leads =
+    (leadsResult.data as Pick<Lead, "qualification_score" | "status">[]) || [];
+  const qualifiedLeads = leads.filter((l) =>
+    QUALIFIED_SCORES.includes(l.qualification_score),
+  ).length;
+  const convertedLeads = leads.filter(
+    (l) => l.status === "converted" || l.status === "scheduled",
+  ).length;
+
+  return {
+    newLeadsCount: leads.length - qualifiedLeads,
+    qualifiedLeadsCount: qualifiedLeads,
+    callsCount,
+    conversionRate:
+      leads.length > 0 ? (convertedLeads / leads.length) * 100 : 0,
+  };
+};
+
+// Helper to count calls scheduled within the bounds, cancelled ones aside
+export const fetchCallsCount = async (
+  organizationId: string,
+  bounds: DashboardBounds,
+  repIds?: string[],
+): Promise<number> => {
+  if (repIds?.length === 0) return 0;
+
+  let query = supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("id", { count: "exact", head: true })
+    .eq("organization_id", organizationId)
+    .neq("status", "cancelled")
+    .gte("scheduled_at", bounds.start.toISOString())
+    .lt("scheduled_at", bounds.end.toISOString());
+  if (repIds) {
+    query = query.in("rep_id", repIds);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Helper to fetch the latest leads, optionally only the reps' own
+export const fetchRecentLeads = async (
+  organizationId: string,
+  repIds?: string[],
+): Promise<Lead[]> => {
+  if (repIds?.length === 0) return [];
+
+  let query = supabase
+    .schema("sales")
+    .from("leads")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(5);
+  if (repIds) {
+    query = query.in("assigned_rep_id", repIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as Lead[]) || [];
+};
+
+// Helper to fetch the next scheduled calls, optionally only the reps' own
+export const fetchUpcomingCalls = async (
+  organizationId: string,
+  repIds?: string[],
+): Promise<DiscoveryCall[]> => {
+  if (repIds?.length === 0) return [];
+
+  let query = supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("status", "scheduled")
+    .gte("scheduled_at", new Date().toISOString())
+    .order("scheduled_at", { ascending: true })
+    .limit(5);
+  if (repIds) {
+    query = query.in("rep_id", repIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as DiscoveryCall[]) || [];
+};
@@ -0,0 +1,90 @@
+import { supabase } from "./supabase";
+import { findLeadsByPhones } from "./leads";
+import { getReleaseAt } from "./sessions";
+import { normalizePhone } from "./utils";
+import type { ConversationSession, LeadWithSession } from "@/types";
+
+export type InboxFilter = "all" | "mine" | "unclaimed";
+
+export type SlaTone = "ok" | "warning" | "breached";
+
+export interface SlaState {
+  remainingMs: number;
+  tone: SlaTone;
+}
+
+// Warn once less than this share of the auto-release window is left
+const SLA_WARNING_FRACTION = 0.25;
+
+// Orphan sessions are shown the way the Leads list shows them: as a
+// virtual lead with no lead row behind it
+const toVirtualLead = (session: ConversationSession): LeadWithSession => ({
+  id: `virtual-${session.id}`,
+  organization_id: session.organization_id,
+  phone: session.phone,
+  contact_name: session.lead?.contact_name,
+  company_name: session.lead?.company_name,
+  qualification_score: session.lead?.qualification_score ?? "new",
+  status: session.lead?.status ?? "new",
+  created_at: session.created_at,
+  updated_at: session.updated_at,
+  session,
+});
+
+// Helper to pair sessions with the leads sharing their phone number, in
+// the order given
+export const attachLeads = async (
+  organizationId: string,
+  sessions: ConversationSession[],
+): Promise<LeadWithSession[]> => {
+  if (sessions.length === 0) return [];
+
+  const phones = [...new Set(sessions.map((s) => normalizePhone(s.phone)))];
+  const leads = await findLeadsByPhones(organizationId, phones);
+  const leadsByPhone = new Map(
+    leads.map((lead) => [normalizePhone(lead.phone), lead]),
+  );
+
+  return sessions.map((session) => {
+    const lead = leadsByPhone.get(normalizePhone(session.phone));
+    return lead ? { ...lead, session } : toVirtualLead(session);
+  });
+};
+
+// Helper to fetch sessions waiting on a human with their leads,
+// longest-waiting first
+export const fetchInbox = async (
+  organizationId: string,
+): Promise<LeadWithSession[]> => {
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .in("control_mode", ["human", "paused"])
+    .order("escalated_at", { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+  return attachLeads(organizationId, (data as ConversationSession[]) || []);
+};
+
+// Time left before the agent takes an escalated session back, by schedule
+// or by the auto-release window. Paused sessions have no SLA.
+export const getSlaState = (
+  session: ConversationSession,
+  autoReleaseHours: number,
+  now: number,
+): SlaState | null => {
+  const releaseAt = getReleaseAt(session, autoReleaseHours);
+  if (!releaseAt) return null;
+
+  const remainingMs = releaseAt.getTime() - now;
+  const windowMs = Math.max(autoReleaseHours, 1) * 60 * 60 * 1000;
+  const tone: SlaTone =
+    remainingMs <= 0
+      ? "breached"
+      : remainingMs < windowMs * SLA_WARNING_FRACTION
+        ? "warning"
+        : "ok";
+  return { remainingMs, tone };
+};
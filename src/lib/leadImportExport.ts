@@ -0,0 +1,230 @@
+import { format } from "date-fns";
+import { fetchLeads, fetchMembers } from "./api";
+import { downloadBlob, writeSpreadsheet } from "./spreadsheet";
+import type { SpreadsheetFormat } from "./spreadsheet";
+import { formatCustomFieldValue } from "./leads";
+import { formatDateTime } from "./utils";
+import { leadImportSchema, type LeadImport } from "@/schemas/lead";
+import type { CustomLeadField, LeadListParams, LeadWithSession } from "@/types";
+
+// =============================================================================
+// Export
+// =============================================================================
+
+const EXPORT_PAGE_SIZE = 200;
+
+const EXPORT_COLUMNS: {
+  header: string;
+  value: (lead: LeadWithSession, repNames: Map<string, string>) => string;
+}[] = [
+  { header: "Phone", value: (l) => l.phone },
+  { header: "Contact Name", value: (l) => l.contact_name || "" },
+  { header: "Company", value: (l) => l.company_name || "" },
+  { header: "Score", value: (l) => l.qualification_score },
+  { header: "Status", value: (l) => l.status },
+  {
+    header: "Assigned Rep",
+    value: (l, repNames) =>
+      l.assigned_rep_id
+        ? repNames.get(l.assigned_rep_id) || l.assigned_rep_id
+        : "",
+  },
+  { header: "Use Case", value: (l) => l.use_case || "" },
+  { header: "Current Stack", value: (l) => l.current_stack || "" },
+  { header: "Expected Volume", value: (l) => l.expected_volume || "" },
+  { header: "Timeline", value: (l) => l.timeline || "" },
+  { header: "Notes", value: (l) => l.notes || "" },
+  {
+    header: "Conversation Status",
+    value: (l) => l.session?.control_mode || "none",
+  },
+  {
+    header: "Escalated At",
+    value: (l) =>
+      l.session?.escalated_at ? formatDateTime(l.session.escalated_at) : "",
+  },
+  { header: "Escalation Reason", value: (l) => l.session?.reason || "" },
+  {
+    header: "Unread Messages",
+    value: (l) => String(l.session?.unread_count ?? 0),
+  },
+  {
+    header: "Created",
+    value: (l) => (l.created_at ? formatDateTime(l.created_at) : ""),
+  },
+  {
+    header: "Last Activity",
+    value: (l) => formatDateTime(l.session?.updated_at || l.updated_at),
+  },
+];
+
+// Export every lead matching the current filters, not just the visible page.
+// Org-defined fields are added as extra columns after the built-in ones.
+export const exportLeads = async (
+  organizationId: string,
+  params: Omit<LeadListParams, "page" | "pageSize">,
+  fileFormat: SpreadsheetFormat,
+  customFields: CustomLeadField[] = [],
+): Promise<number> => {
+  const leads: LeadWithSession[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchLeads(organizationId, {
+      ...params,
+      page,
+      pageSize: EXPORT_PAGE_SIZE,
+    });
+    leads.push(...result.data);
+    if (result.data.length < EXPORT_PAGE_SIZE || leads.length >= result.total)
+      break;
+  }
+
+  // Rep names are a nice-to-have; fall back to ids if members can't load
+  const members = await fetchMembers().catch(() => []);
+  const repNames = new Map(
+    members.map((m) => [m.id, m.name || m.email || m.id]),
+  );
+
+  const columns = [
+    ...EXPORT_COLUMNS,
+    ...customFields.map((field) => ({
+      header: field.label,
+      value: (l: LeadWithSession) =>
+        formatCustomFieldValue(field, l.custom_fields?.[field.key]),
+    })),
+  ];
+  const rows = [
+    columns.map((c) => c.header),
+    ...leads.map((lead) => columns.map((c) => c.value(lead, repNames))),
+  ];
+  const blob = await writeSpreadsheet(rows, fileFormat, "Leads");
+  downloadBlob(blob, `leads-${format(new Date(), "yyyy-MM-dd")}.${fileFormat}`);
+  return leads.length;
+};
+
+// =============================================================================
+// Import
+// =============================================================================
+
+export type LeadImportField = keyof LeadImport;
+
+// Importable fields, with header spellings recognised by the auto-mapping
+export const LEAD_IMPORT_FIELDS: {
+  field: LeadImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}[] = [
+  {
+    field: "phone",
+    label: "Phone",
+    required: true,
+    aliases: ["phone", "phone number", "mobile", "whatsapp", "телефон"],
+  },
+  {
+    field: "contact_name",
+    label: "Contact Name",
+    aliases: ["contact name", "name", "full name", "contact", "имя"],
+  },
+  {
+    field: "company_name",
+    label: "Company",
+    aliases: ["company", "company name", "organization", "компания"],
+  },
+  {
+    field: "qualification_score",
+    label: "Score",
+    aliases: ["score", "qualification score", "qualification"],
+  },
+  { field: "status", label: "Status", aliases: ["status", "stage"] },
+  { field: "use_case", label: "Use Case", aliases: ["use case", "need"] },
+  {
+    field: "current_stack",
+    label: "Current Stack",
+    aliases: ["current stack", "stack"],
+  },
+  {
+    field: "expected_volume",
+    label: "Expected Volume",
+    aliases: ["expected volume", "volume"],
+  },
+  { field: "timeline", label: "Timeline", aliases: ["timeline"] },
+  { field: "notes", label: "Notes", aliases: ["notes", "comment", "comments"] },
+];
+
+// Column index in the uploaded file for each lead field
+export type LeadColumnMapping = Partial<Record<LeadImportField, number>>;
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ").trim();
+
+export const guessColumnMapping = (headers: string[]): LeadColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: LeadColumnMapping = {};
+  for (const { field, aliases } of LEAD_IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+};
+
+export interface LeadImportRow {
+  rowNumber: number; // 1-based, counting the header row
+  values: LeadImport | null;
+  errors: string[];
+  // Set when an earlier row has the same phone; this row's values were
+  // merged into that one
+  duplicateOfRow?: number;
+}
+
+export const validateImportRows = (
+  rows: string[][],
+  mapping: LeadColumnMapping,
+): LeadImportRow[] => {
+  const labels = Object.fromEntries(
+    LEAD_IMPORT_FIELDS.map((f) => [f.field, f.label]),
+  );
+  const firstRowByPhone = new Map<string, LeadImportRow>();
+
+  return rows.map((cells, i) => {
+    const raw = Object.fromEntries(
+      Object.entries(mapping)
+        .filter(([, column]) => column !== undefined && cells[column])
+        .map(([field, column]) => [field, cells[column!]]),
+    );
+    const rowNumber = i + 2;
+    const parsed = leadImportSchema.safeParse({ phone: "", ...raw });
+
+    if (!parsed.success) {
+      return {
+        rowNumber,
+        values: null,
+        errors: parsed.error.issues.map(
+          (issue) =>
+            `${labels[issue.path[0]] || issue.path[0]}: ${issue.message}`,
+        ),
+      };
+    }
+
+    const values = parsed.data;
+    const first = firstRowByPhone.get(values.phone);
+    if (first?.values) {
+      // Same phone twice in one file: fill the first row's blanks
+      for (const [key, value] of Object.entries(values)) {
+        const field = key as LeadImportField;
+        if (value && !first.values[field]) {
+          Object.assign(first.values, { [field]: value });
+        }
+      }
+      return {
+        rowNumber,
+        values: null,
+        errors: [],
+        duplicateOfRow: first.rowNumber,
+      };
+    }
+
+    const row: LeadImportRow = { rowNumber, values, errors: [] };
+    firstRowByPhone.set(values.phone, row);
+    return row;
+  });
+};
@@ -0,0 +1,63 @@
+import { supabase } from "./supabase";
+import type { LeadNote, LeadNoteMention, TeamMember } from "@/types";
+
+// Helper to fetch every note on a lead, oldest first so threads read
+// top to bottom
+export const fetchLeadNotes = async (leadId: string): Promise<LeadNote[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_notes")
+    .select("*")
+    .eq("lead_id", leadId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data as LeadNote[]) || [];
+};
+
+// Edits don't notify again; only members mentioned when a note is created
+// are notified
+export const updateLeadNote = async (
+  noteId: string,
+  values: { body: string; mentions: LeadNoteMention[] },
+): Promise<LeadNote> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_notes")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", noteId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as LeadNote;
+};
+
+// Replies to a deleted note are deleted with it
+export const deleteLeadNote = async (noteId: string) => {
+  const { error } = await supabase
+    .schema("sales")
+    .from("lead_notes")
+    .delete()
+    .eq("id", noteId);
+
+  if (error) throw error;
+};
+
+// Display name used after "@"
+export const getMentionName = (member: TeamMember) =>
+  member.name || member.email || "Unnamed member";
+
+// Keep only the mentions still present in the body, once per member
+export const collectMentions = (
+  body: string,
+  candidates: LeadNoteMention[],
+): LeadNoteMention[] => {
+  const seen = new Set<string>();
+  return candidates.filter((mention) => {
+    if (seen.has(mention.member_id)) return false;
+    if (!body.includes(`@${mention.name}`)) return false;
+    seen.add(mention.member_id);
+    return true;
+  });
+};
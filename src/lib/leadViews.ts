@@ -0,0 +1,214 @@
+import { supabase } from "./supabase";
+import type {
+  LeadView,
+  LeadViewFilters,
+  LeadViewScope,
+  SalesUser,
+  UnifiedLeadFilters,
+} from "@/types";
+
+// =============================================================================
+// URL state
+// =============================================================================
+
+// URL param for each filter. The Leads page keeps its filters in the URL so
+// a filtered list can be shared by link; saved views use the same mapping.
+const TEXT_PARAMS = {
+  search: "q",
+  status: "status",
+  qualification_score: "score",
+  conversation_status: "conversation",
+  assignee: "assignee",
+  team_id: "team",
+  source: "source",
+  created_from: "from",
+  created_to: "to",
+  tag_id: "tag",
+} as const;
+
+const HOURS_PARAMS = {
+  inactive_hours: "inactive",
+  escalated_hours: "escalated",
+} as const;
+
+// Custom field filters share one JSON param, keys sorted so equal filters
+// produce equal URLs
+const CUSTOM_FIELDS_PARAM = "fields";
+
+const parseCustomFields = (raw: string | null) => {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return undefined;
+    const entries = Object.entries(parsed).filter(
+      ([, value]) => typeof value === "string" && value !== "",
+    ) as [string, string][];
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const stringifyCustomFields = (fields?: Record<string, string>) => {
+  const entries = Object.entries(fields ?? {})
+    .filter(([, value]) => value !== "")
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0
+    ? JSON.stringify(Object.fromEntries(entries))
+    : undefined;
+};
+
+export const viewFiltersFromParams = (
+  params: URLSearchParams,
+): LeadViewFilters => {
+  const filters: Record<string, string | number> = {};
+  for (const [key, param] of Object.entries(TEXT_PARAMS)) {
+    const value = params.get(param);
+    if (value) filters[key] = value;
+  }
+  for (const [key, param] of Object.entries(HOURS_PARAMS)) {
+    const value = Number(params.get(param));
+    if (value > 0) filters[key] = value;
+  }
+  const customFields = parseCustomFields(params.get(CUSTOM_FIELDS_PARAM));
+  return { ...filters, custom_fields: customFields } as LeadViewFilters;
+};
+
+// Every filter param, with undefined for the ones to clear
+export const viewFiltersToParams = (
+  filters: LeadViewFilters,
+): Record<string, string | undefined> => {
+  const values = filters as Record<string, string | number | undefined>;
+  return {
+    ...Object.fromEntries(
+      [...Object.entries(TEXT_PARAMS), ...Object.entries(HOURS_PARAMS)].map(
+        ([key, param]) => [
+          param,
+          values[key] === undefined || values[key] === ""
+            ? undefined
+            : String(values[key]),
+        ],
+      ),
+    ),
+    [CUSTOM_FIELDS_PARAM]: stringifyCustomFields(filters.custom_fields),
+  };
+};
+
+// URL value for the custom field filters, e.g. to pass to updateParams
+export const customFieldsParam = (fields: Record<string, string>) => ({
+  [CUSTOM_FIELDS_PARAM]: stringifyCustomFields(fields),
+});
+
+export const hasViewFilters = (filters: LeadViewFilters) =>
+  Object.values(viewFiltersToParams(filters)).some(Boolean);
+
+export const isSameViewFilters = (a: LeadViewFilters, b: LeadViewFilters) => {
+  const paramsA = viewFiltersToParams(a);
+  const paramsB = viewFiltersToParams(b);
+  return Object.keys(paramsA).every((key) => paramsA[key] === paramsB[key]);
+};
+
+// Turn "assignee=me" into the viewer's team member id
+export const resolveViewFilters = (
+  { assignee, ...filters }: LeadViewFilters,
+  currentMemberId?: string,
+): UnifiedLeadFilters => ({
+  ...filters,
+  assigned_rep_id: assignee === "me" ? currentMemberId : assignee,
+});
+
+// =============================================================================
+// Smart segments
+// =============================================================================
+
+// Built-in views every user sees above their saved ones
+export const SMART_SEGMENTS: Pick<LeadView, "id" | "name" | "filters">[] = [
+  { id: "all", name: "All leads", filters: {} },
+  { id: "mine", name: "My leads", filters: { assignee: "me" } },
+  { id: "unassigned", name: "Unassigned", filters: { assignee: "none" } },
+  {
+    id: "hot-unassigned",
+    name: "Hot & unassigned",
+    filters: { qualification_score: "hot", assignee: "none" },
+  },
+  {
+    id: "escalated-2h",
+    name: "Escalated > 2h",
+    filters: { conversation_status: "human", escalated_hours: 2 },
+  },
+  {
+    id: "stale-7d",
+    name: "No activity in 7 days",
+    filters: { inactive_hours: 24 * 7 },
+  },
+];
+
+// =============================================================================
+// Saved views
+// =============================================================================
+
+// Helper to fetch the user's own views plus those shared with the org
+export const fetchLeadViews = async (
+  organizationId: string,
+  userId: string,
+): Promise<LeadView[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_views")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .or(`scope.eq.organization,created_by.eq.${userId}`)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data as LeadView[]) || [];
+};
+
+// Helper to save the current filters as a named view
+export const createLeadView = async (
+  organizationId: string,
+  values: { name: string; scope: LeadViewScope; filters: LeadViewFilters },
+  actor: SalesUser,
+): Promise<LeadView> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_views")
+    .insert({
+      ...values,
+      organization_id: organizationId,
+      created_by: actor.id,
+      created_by_name: actor.name || actor.email || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as LeadView;
+};
+
+// Helper to rename, re-share or re-filter a saved view
+export const updateLeadView = async (
+  viewId: string,
+  updates: Partial<Pick<LeadView, "name" | "scope" | "filters">>,
+): Promise<LeadView> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_views")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", viewId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as LeadView;
+};
+
+export const deleteLeadView = async (viewId: string) => {
+  const { error } = await supabase
+    .schema("sales")
+    .from("lead_views")
+    .delete()
+    .eq("id", viewId);
+
+  if (error) throw error;
+};
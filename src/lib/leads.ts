@@ -0,0 +1,432 @@
+import { supabase } from "./supabase";
+import { fetchSessionEvents, fetchSessionIdsByPhone } from "./sessions";
+import { normalizePhone } from "./utils";
+import type {
+  CustomLeadField,
+  CustomLeadFieldValue,
+  DiscoveryCall,
+  Lead,
+  LeadActivity,
+  LeadActivityKind,
+  LeadChange,
+  LeadFieldChange,
+  LeadMerge,
+  LeadWithSession,
+  SalesUser,
+} from "@/types";
+import type { LeadImport } from "@/schemas/lead";
+
+// Human-readable labels for fields tracked in the lead history
+export const LEAD_FIELD_LABELS: Record<string, string> = {
+  phone: "Phone",
+  contact_name: "Contact name",
+  company_name: "Company",
+  use_case: "Use case",
+  current_stack: "Current stack",
+  expected_volume: "Expected volume",
+  timeline: "Timeline",
+  qualification_score: "Score",
+  status: "Status",
+  notes: "Notes",
+  assigned_rep_id: "Assigned rep",
+  merged_lead: "Merged in",
+};
+
+// Custom field changes are tracked per field as "custom_fields.<key>"
+const CUSTOM_FIELD_PREFIX = "custom_fields.";
+
+export const getLeadFieldLabel = (
+  field: string,
+  customFields: CustomLeadField[] = [],
+) => {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const key = field.slice(CUSTOM_FIELD_PREFIX.length);
+    return customFields.find((f) => f.key === key)?.label || key;
+  }
+  return LEAD_FIELD_LABELS[field] || field;
+};
+
+// Display value for a custom field (dates as stored, booleans as Yes/No)
+export const formatCustomFieldValue = (
+  field: Pick<CustomLeadField, "type">,
+  value: CustomLeadFieldValue | undefined,
+): string => {
+  if (value === null || value === undefined || value === "") return "";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// Empty form strings are stored as NULL
+const toColumnValues = (values: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      value === "" || value === undefined ? null : value,
+    ]),
+  );
+
+// Helper to diff a lead against proposed updates
+export const diffLead = (
+  lead: Partial<Lead>,
+  updates: Record<string, unknown>,
+): Record<string, LeadFieldChange> => {
+  const changes: Record<string, LeadFieldChange> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === "custom_fields" && value && typeof value === "object") {
+      const current = lead.custom_fields ?? {};
+      for (const [field, to] of Object.entries(value)) {
+        const from = current[field] ?? null;
+        if (from !== to) {
+          changes[`${CUSTOM_FIELD_PREFIX}${field}`] = { from, to };
+        }
+      }
+      continue;
+    }
+    const from = (lead as Record<string, unknown>)[key] ?? null;
+    if (from !== value) {
+      changes[key] = { from, to: value };
+    }
+  }
+  return changes;
+};
+
+// Helper to append an entry to the lead change history
+// History is best-effort: a failed write is logged, never surfaced
+export const recordLeadChange = async (
+  lead: Pick<Lead, "id" | "organization_id">,
+  changes: Record<string, LeadFieldChange>,
+  actor: SalesUser | null,
+) => {
+  if (Object.keys(changes).length === 0) return;
+
+  const { error } = await supabase
+    .schema("sales")
+    .from("lead_changes")
+    .insert({
+      lead_id: lead.id,
+      organization_id: lead.organization_id,
+      changed_by: actor?.id ?? null,
+      changed_by_name: actor?.name || actor?.email || null,
+      changes,
+    });
+
+  if (error) {
+    console.error("Error recording lead change:", error);
+  }
+};
+
+// Helper to update a lead and record what changed
+export const updateLead = async (
+  lead: Lead,
+  updates: Record<string, unknown>,
+  actor: SalesUser | null,
+): Promise<Lead> => {
+  const values = toColumnValues(updates);
+  // Custom fields share one JSON column; keep values not being edited
+  if (values.custom_fields) {
+    values.custom_fields = {
+      ...lead.custom_fields,
+      ...(values.custom_fields as Record<string, CustomLeadFieldValue>),
+    };
+  }
+  const changes = diffLead(lead, values);
+  if (Object.keys(changes).length === 0) return lead;
+
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("leads")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", lead.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await recordLeadChange(lead, changes, actor);
+  return data as Lead;
+};
+
+// Helper to create a lead manually (e.g. one that came in by phone)
+export const createLead = async (
+  organizationId: string,
+  values: Record<string, unknown>,
+  actor: SalesUser | null,
+): Promise<Lead> => {
+  const columns = toColumnValues(values);
+
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("leads")
+    .insert({ ...columns, organization_id: organizationId })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const lead = data as Lead;
+  await recordLeadChange(lead, diffLead({}, columns), actor);
+  return lead;
+};
+
+// sales.leads.phone_normalized is generated from phone the way
+// normalizePhone works (digits only, a leading 8 read as 7), so leads match
+// however their number was typed
+const PHONE_MATCH_COLUMN = "phone_normalized";
+
+// Helper to find an existing lead by phone, in any formatting
+export const findLeadByPhone = async (
+  organizationId: string,
+  phone: string,
+): Promise<Lead | null> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("leads")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq(PHONE_MATCH_COLUMN, normalizePhone(phone))
+    .limit(1);
+
+  if (error) throw error;
+  return ((data as Lead[]) || [])[0] ?? null;
+};
+
+const PHONE_LOOKUP_CHUNK = 100;
+
+// Helper to find existing leads for many phones at once, in any formatting
+export const findLeadsByPhones = async (
+  organizationId: string,
+  phones: string[],
+): Promise<Lead[]> => {
+  const leads: Lead[] = [];
+  // Keep the IN (...) list well under URL length limits
+  for (let i = 0; i < phones.length; i += PHONE_LOOKUP_CHUNK) {
+    const chunk = phones.slice(i, i + PHONE_LOOKUP_CHUNK);
+    const { data, error } = await supabase
+      .schema("sales")
+      .from("leads")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .in(PHONE_MATCH_COLUMN, chunk.map(normalizePhone));
+
+    if (error) throw error;
+    leads.push(...((data as Lead[]) || []));
+  }
+  return leads;
+};
+
+export type LeadImportMode = "merge" | "skip";
+
+export interface LeadImportResult {
+  created: number;
+  merged: number;
+  skipped: number;
+  failed: { rowNumber: number; error: string }[];
+}
+
+// Helper to import validated spreadsheet rows. Rows whose phone matches an
+// existing lead either update it (blank cells keep the current value) or
+// are skipped, depending on the mode.
+export const importLeads = async (
+  organizationId: string,
+  rows: { rowNumber: number; values: LeadImport }[],
+  mode: LeadImportMode,
+  actor: SalesUser | null,
+  onProgress?: (done: number) => void,
+): Promise<LeadImportResult> => {
+  const result: LeadImportResult = {
+    created: 0,
+    merged: 0,
+    skipped: 0,
+    failed: [],
+  };
+
+  const existing = await findLeadsByPhones(
+    organizationId,
+    rows.map((row) => row.values.phone),
+  );
+  const byPhone = new Map(
+    existing.map((lead) => [normalizePhone(lead.phone), lead]),
+  );
+
+  for (const [index, { rowNumber, values }] of rows.entries()) {
+    try {
+      const match = byPhone.get(values.phone);
+      if (match && mode === "skip") {
+        result.skipped++;
+      } else if (match) {
+        const { phone: _phone, ...fields } = values;
+        const updates = Object.fromEntries(
+          Object.entries(fields).filter(
+            ([, value]) => value !== undefined && value !== "",
+          ),
+        );
+        byPhone.set(values.phone, await updateLead(match, updates, actor));
+        result.merged++;
+      } else {
+        const lead = await createLead(
+          organizationId,
+          {
+            ...values,
+            qualification_score: values.qualification_score ?? "new",
+            status: values.status ?? "new",
+          },
+          actor,
+        );
+        byPhone.set(values.phone, lead);
+        result.created++;
+      }
+    } catch (error) {
+      result.failed.push({
+        rowNumber,
+        error: error instanceof Error ? error.message : "Failed to import row",
+      });
+    }
+    onProgress?.(index + 1);
+  }
+
+  return result;
+};
+
+// Helper to fetch a lead's change history, newest first
+export const fetchLeadChanges = async (
+  leadId: string,
+): Promise<LeadChange[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_changes")
+    .select("*")
+    .eq("lead_id", leadId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as LeadChange[]) || [];
+};
+
+// Helper to fetch a lead's discovery calls, newest first
+export const fetchLeadCalls = async (
+  leadId: string,
+): Promise<DiscoveryCall[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("discovery_calls")
+    .select("*")
+    .eq("lead_id", leadId)
+    .order("scheduled_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as DiscoveryCall[]) || [];
+};
+
+// Timeline kind for each tracked field; anything else is a plain edit
+const FIELD_ACTIVITY_KINDS: Record<string, LeadActivityKind> = {
+  qualification_score: "score",
+  status: "status",
+  assigned_rep_id: "assignment",
+  notes: "note",
+  merged_lead: "merge",
+};
+
+// Split one saved edit into timeline entries, one per kind of change
+const changeToActivities = (change: LeadChange): LeadActivity[] => {
+  const groups = new Map<LeadActivityKind, Record<string, LeadFieldChange>>();
+  for (const [field, value] of Object.entries(change.changes)) {
+    const kind = FIELD_ACTIVITY_KINDS[field] ?? "edit";
+    groups.set(kind, { ...groups.get(kind), [field]: value });
+  }
+  return [...groups].map(([kind, changes]) => ({
+    id: `${change.id}:${kind}`,
+    kind,
+    actor_name: change.changed_by_name,
+    created_at: change.created_at,
+    changes,
+  }));
+};
+
+const callToActivities = (call: DiscoveryCall): LeadActivity[] => {
+  const booked: LeadActivity = {
+    id: `${call.id}:booked`,
+    kind: "call_booked",
+    created_at: call.created_at,
+    call,
+  };
+  if (call.status === "scheduled") return [booked];
+  return [
+    booked,
+    {
+      id: `${call.id}:${call.status}`,
+      kind: `call_${call.status}`,
+      created_at: call.updated_at,
+      call,
+    },
+  ];
+};
+
+// Helper to build a lead's activity timeline, newest first. Orphan
+// sessions (virtual leads) only have conversation events.
+export const fetchLeadActivity = async (
+  lead: LeadWithSession,
+): Promise<LeadActivity[]> => {
+  const isVirtual = lead.id.startsWith("virtual-");
+
+  const [changes, calls, sessionIds] = await Promise.all([
+    isVirtual ? [] : fetchLeadChanges(lead.id),
+    isVirtual ? [] : fetchLeadCalls(lead.id),
+    fetchSessionIdsByPhone(lead.organization_id, lead.phone),
+  ]);
+  if (lead.session && !sessionIds.includes(lead.session.id)) {
+    sessionIds.push(lead.session.id);
+  }
+  const sessionEvents = await fetchSessionEvents(sessionIds);
+
+  const activities: LeadActivity[] = [
+    ...sessionEvents.map((event) => ({
+      id: event.id,
+      kind: event.event_type,
+      actor_name: event.actor_name,
+      created_at: event.created_at,
+      reason: event.reason,
+    })),
+    ...calls.flatMap(callToActivities),
+  ];
+
+  // The oldest change is the creation snapshot when every field was empty
+  // before it (leads created in the UI or by import); leads the agent
+  // created have no snapshot, so fall back to the row's created_at
+  const oldest = changes[changes.length - 1];
+  const isCreation =
+    oldest && Object.values(oldest.changes).every(({ from }) => from === null);
+  for (const change of changes) {
+    if (change === oldest && isCreation) continue;
+    activities.push(...changeToActivities(change));
+  }
+  if (!isVirtual) {
+    activities.push({
+      id: `${lead.id}:created`,
+      kind: "created",
+      actor_name: isCreation ? oldest.changed_by_name : undefined,
+      created_at: isCreation ? oldest.created_at : lead.created_at,
+    });
+  }
+
+  return activities.sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+  );
+};
+
+// Helper to fetch the merge audit log, newest first
+export const fetchLeadMerges = async (
+  organizationId: string,
+  limit = 20,
+): Promise<LeadMerge[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("lead_merges")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as LeadMerge[]) || [];
+};
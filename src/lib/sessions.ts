@@ -0,0 +1,326 @@
+import { addHours } from "date-fns";
+import { supabase } from "./supabase";
+import { formatDateTime, normalizePhone } from "./utils";
+import type {
+  ConversationControlMode,
+  ConversationSession,
+  SalesUser,
+  SessionEvent,
+  SessionEventType,
+} from "@/types";
+
+// Helper to append a control-mode transition to the session event log
+// The log is best-effort: a failed write is logged, never surfaced
+export const recordSessionEvent = async (
+  session: Pick<ConversationSession, "id" | "organization_id">,
+  eventType: SessionEventType,
+  actor: SalesUser | null,
+  reason?: string,
+) => {
+  const { error } = await supabase
+    .schema("agents")
+    .from("session_events")
+    .insert({
+      session_id: session.id,
+      organization_id: session.organization_id,
+      event_type: eventType,
+      reason: reason ?? null,
+      actor_id: actor?.id ?? null,
+      actor_name: actor?.name || actor?.email || null,
+    });
+
+  if (error) {
+    console.error("Error recording session event:", error);
+  }
+};
+
+// Helper to fetch the ids of every session for a phone number
+// (a lead may have talked to more than one team)
+export const fetchSessionIdsByPhone = async (
+  organizationId: string,
+  phone: string,
+): Promise<string[]> => {
+  const normalized = normalizePhone(phone);
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .in("phone", [...new Set([phone, normalized, `+${normalized}`])]);
+
+  if (error) throw error;
+  return ((data as { id: string }[]) || []).map((row) => row.id);
+};
+
+// Helper to fetch the most recently active session for a phone number
+export const fetchLatestSessionByPhone = async (
+  organizationId: string,
+  phone: string,
+): Promise<ConversationSession | null> => {
+  const normalized = normalizePhone(phone);
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .in("phone", [...new Set([phone, normalized, `+${normalized}`])])
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as ConversationSession | null) ?? null;
+};
+
+// Helper to fetch control-mode transitions for sessions, newest first
+export const fetchSessionEvents = async (
+  sessionIds: string[],
+): Promise<SessionEvent[]> => {
+  if (sessionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("session_events")
+    .select("*")
+    .in("session_id", sessionIds)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as SessionEvent[]) || [];
+};
+
+// =============================================================================
+// Control mode and claims
+// =============================================================================
+
+const updateSession = async (
+  sessionId: string,
+  changes: Record<string, unknown>,
+) => {
+  const { error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .update(changes)
+    .eq("id", sessionId);
+
+  if (error) throw error;
+};
+
+const NO_SCHEDULE = {
+  scheduled_mode: null,
+  scheduled_at: null,
+  scheduled_by_name: null,
+};
+
+const SCHEDULE_LABELS: Record<ConversationControlMode, string> = {
+  agent: "Hand back to the agent",
+  human: "Escalate to a human",
+  paused: "Pause the agent",
+};
+
+// Each helper writes the change, logs the session event and returns the
+// session as it is now, for local state
+
+export const escalateSession = async (
+  session: ConversationSession,
+  actor: SalesUser | null,
+  reason = "Manual escalation from UI",
+): Promise<ConversationSession> => {
+  const escalatedAt = new Date().toISOString();
+  await updateSession(session.id, {
+    control_mode: "human",
+    escalated_at: escalatedAt,
+    reason,
+    ...NO_SCHEDULE,
+  });
+  await recordSessionEvent(session, "escalated", actor, reason);
+  return {
+    ...session,
+    control_mode: "human",
+    escalated_at: escalatedAt,
+    reason,
+    ...NO_SCHEDULE,
+  };
+};
+
+// Handing back to the agent also drops the claim and any scheduled change
+export const releaseSession = async (
+  session: ConversationSession,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  await updateSession(session.id, {
+    control_mode: "agent",
+    escalated_at: null,
+    reason: null,
+    claimed_by: null,
+    claimed_at: null,
+    ...NO_SCHEDULE,
+  });
+  await recordSessionEvent(session, "released", actor);
+  return {
+    ...session,
+    control_mode: "agent",
+    escalated_at: undefined,
+    reason: undefined,
+    claimed_by: null,
+    claimed_at: null,
+    ...NO_SCHEDULE,
+  };
+};
+
+// Restarts the auto-release window; a scheduled release would still cut it
+// short, so it is dropped
+export const prolongSession = async (
+  session: ConversationSession,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  const changes = {
+    escalated_at: new Date().toISOString(),
+    ...(session.scheduled_mode === "agent" ? NO_SCHEDULE : {}),
+  };
+  await updateSession(session.id, changes);
+  await recordSessionEvent(session, "prolonged", actor);
+  return { ...session, ...changes };
+};
+
+// Switch control mode at a later time, e.g. "release in 30 min". Replaces
+// any change already scheduled.
+export const scheduleControlMode = async (
+  session: ConversationSession,
+  mode: ConversationControlMode,
+  at: Date,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  const schedule = {
+    scheduled_mode: mode,
+    scheduled_at: at.toISOString(),
+    scheduled_by_name: actor?.name || actor?.email || null,
+  };
+  await updateSession(session.id, schedule);
+  await recordSessionEvent(
+    session,
+    "scheduled",
+    actor,
+    `${SCHEDULE_LABELS[mode]} at ${formatDateTime(at)}`,
+  );
+  return { ...session, ...schedule };
+};
+
+export const cancelScheduledChange = async (
+  session: ConversationSession,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  await updateSession(session.id, NO_SCHEDULE);
+  await recordSessionEvent(
+    session,
+    "schedule_cancelled",
+    actor,
+    session.scheduled_mode && session.scheduled_at
+      ? `${SCHEDULE_LABELS[session.scheduled_mode]} at ${formatDateTime(
+          session.scheduled_at,
+        )}`
+      : undefined,
+  );
+  return { ...session, ...NO_SCHEDULE };
+};
+
+// Stop the agent replying until the given time, when it takes over again
+export const pauseSession = async (
+  session: ConversationSession,
+  until: Date,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  const changes = {
+    control_mode: "paused" as const,
+    scheduled_mode: "agent" as const,
+    scheduled_at: until.toISOString(),
+    scheduled_by_name: actor?.name || actor?.email || null,
+  };
+  await updateSession(session.id, changes);
+  await recordSessionEvent(
+    session,
+    "paused",
+    actor,
+    `Until ${formatDateTime(until)}`,
+  );
+  return { ...session, ...changes };
+};
+
+// When a human-controlled session goes back to the agent: a scheduled
+// release wins over the org's auto-release window
+export const getReleaseAt = (
+  session: ConversationSession,
+  autoReleaseHours: number,
+): Date | null => {
+  if (session.control_mode !== "human") return null;
+  if (session.scheduled_mode === "agent" && session.scheduled_at) {
+    return new Date(session.scheduled_at);
+  }
+  if (!session.escalated_at || autoReleaseHours <= 0) return null;
+  return addHours(new Date(session.escalated_at), autoReleaseHours);
+};
+
+// Only succeeds while nobody holds the session, so two reps claiming at
+// once can't both win
+export const claimSession = async (
+  session: ConversationSession,
+  memberId: string,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  const claimedAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .update({ claimed_by: memberId, claimed_at: claimedAt })
+    .eq("id", session.id)
+    .is("claimed_by", null)
+    .select("id");
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error("Someone else has already claimed this conversation");
+  }
+  await recordSessionEvent(session, "claimed", actor);
+  return { ...session, claimed_by: memberId, claimed_at: claimedAt };
+};
+
+export const unclaimSession = async (
+  session: ConversationSession,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  await updateSession(session.id, { claimed_by: null, claimed_at: null });
+  await recordSessionEvent(session, "unclaimed", actor);
+  return { ...session, claimed_by: null, claimed_at: null };
+};
+
+// Managers can take a claimed session over from a teammate. Only succeeds
+// while the claim is still the one on screen, so it can't override a
+// claim made in the meantime.
+export const takeOverSession = async (
+  session: ConversationSession,
+  memberId: string,
+  actor: SalesUser | null,
+): Promise<ConversationSession> => {
+  if (!session.claimed_by) return claimSession(session, memberId, actor);
+
+  const claimedAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .update({ claimed_by: memberId, claimed_at: claimedAt })
+    .eq("id", session.id)
+    .eq("claimed_by", session.claimed_by)
+    .select("id");
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error("Someone else claimed this conversation in the meantime");
+  }
+  await recordSessionEvent(session, "claimed", actor, "Taken over");
+  return { ...session, claimed_by: memberId, claimed_at: claimedAt };
+};
+
+// Helper to clear the unread badge once a human has opened the session
+export const markSessionRead = async (sessionId: string) => {
+  await updateSession(sessionId, { unread_count: 0 });
+};
@@ -0,0 +1,78 @@
+import { supabase } from "./supabase";
+import type { Snippet } from "@/types";
+import type { SnippetInput } from "@/schemas/snippet";
+
+// Placeholders a snippet body may use, filled in when it is inserted
+export const SNIPPET_VARIABLES = {
+  contact_name: "The lead's contact name",
+  company_name: "The lead's company",
+  agent_name: "Your name",
+} as const;
+
+export type SnippetVariables = Partial<
+  Record<keyof typeof SNIPPET_VARIABLES, string>
+>;
+
+// Helper to fetch the organization's snippets in every language
+export const fetchSnippets = async (
+  organizationId: string,
+): Promise<Snippet[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("snippets")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("shortcut", { ascending: true });
+
+  if (error) throw error;
+  return (data as Snippet[]) || [];
+};
+
+export const createSnippet = async (
+  organizationId: string,
+  values: SnippetInput,
+): Promise<Snippet> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("snippets")
+    .insert({ ...values, organization_id: organizationId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Snippet;
+};
+
+export const updateSnippet = async (
+  snippetId: string,
+  values: SnippetInput,
+): Promise<Snippet> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("snippets")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", snippetId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Snippet;
+};
+
+export const deleteSnippet = async (snippetId: string) => {
+  const { error } = await supabase
+    .schema("sales")
+    .from("snippets")
+    .delete()
+    .eq("id", snippetId);
+
+  if (error) throw error;
+};
+
+// Fill in {{variables}}. Unknown or empty ones are left as written so the
+// rep notices and edits them before sending.
+export const renderSnippet = (body: string, variables: SnippetVariables) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    const value = variables[name as keyof SnippetVariables]?.trim();
+    return value || placeholder;
+  });
@@ -0,0 +1,138 @@
+// CSV / XLSX helpers for lead import and export.
+// exceljs is loaded on demand so it stays out of the main bundle.
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF or LF)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Excel prepends a BOM to UTF-8 CSVs
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+// Values like "=HYPERLINK(...)" would run as formulas when the CSV is
+// opened in a spreadsheet app. Phone numbers ("+7...") are left alone.
+const FORMULA_PREFIX = /^(?:[=@\t\r]|[+-](?!\d))/;
+
+const escapeCsvField = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+
+// Read the first sheet of a CSV or XLSX file as strings
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  let table: string[][];
+
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const { default: ExcelJS } = await import("exceljs");
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new Error("The workbook has no sheets");
+
+    table = [];
+    sheet.eachRow((row) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, col) => {
+        cells[col - 1] = cell.text?.trim() ?? "";
+      });
+      table.push(Array.from(cells, (c) => c ?? ""));
+    });
+  } else {
+    table = parseCsv(await file.text());
+  }
+
+  const [headers = [], ...rows] = table;
+  if (headers.length === 0) throw new Error("The file is empty");
+
+  return {
+    headers: headers.map((h) => h.trim()),
+    // Pad short rows so every row lines up with the headers
+    rows: rows.map((r) => headers.map((_, i) => (r[i] ?? "").trim())),
+  };
+};
+
+export const writeXlsx = async (
+  rows: string[][],
+  sheetName: string,
+): Promise<Blob> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+export const writeSpreadsheet = async (
+  rows: string[][],
+  format: SpreadsheetFormat,
+  sheetName: string,
+): Promise<Blob> =>
+  format === "xlsx"
+    ? writeXlsx(rows, sheetName)
+    : new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" });
+
+// Trigger a browser download for a generated file
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
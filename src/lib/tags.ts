@@ -0,0 +1,85 @@
+import { supabase } from "./supabase";
+import type { Tag } from "@/types";
+import type { TagInput } from "@/schemas/tag";
+
+// Helper to fetch the organization's tags
+export const fetchTags = async (organizationId: string): Promise<Tag[]> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("tags")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return (data as Tag[]) || [];
+};
+
+export const createTag = async (
+  organizationId: string,
+  values: TagInput,
+): Promise<Tag> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("tags")
+    .insert({ ...values, organization_id: organizationId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Tag;
+};
+
+export const updateTag = async (
+  tagId: string,
+  values: TagInput,
+): Promise<Tag> => {
+  const { data, error } = await supabase
+    .schema("sales")
+    .from("tags")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", tagId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Tag;
+};
+
+// Leads and sessions still carrying the id are cleaned up by the database;
+// until then, unknown ids are skipped when rendering
+export const deleteTag = async (tagId: string) => {
+  const { error } = await supabase
+    .schema("sales")
+    .from("tags")
+    .delete()
+    .eq("id", tagId);
+
+  if (error) throw error;
+};
+
+// Helper to replace the tags on a single lead
+export const setLeadTags = async (leadId: string, tagIds: string[]) => {
+  const { error } = await supabase
+    .schema("sales")
+    .from("leads")
+    .update({ tag_ids: tagIds })
+    .eq("id", leadId);
+
+  if (error) throw error;
+};
+
+// Helper to replace the tags on a single conversation session
+export const setSessionTags = async (sessionId: string, tagIds: string[]) => {
+  const { error } = await supabase
+    .schema("agents")
+    .from("conversation_sessions")
+    .update({ tag_ids: tagIds })
+    .eq("id", sessionId);
+
+  if (error) throw error;
+};
+
+// Resolve tag ids to tags, in the order the org's tag list uses
+export const resolveTags = (tags: Tag[], tagIds?: string[]) =>
+  tagIds?.length ? tags.filter((tag) => tagIds.includes(tag.id)) : [];
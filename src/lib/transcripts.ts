@@ -0,0 +1,282 @@
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "./supabase";
+import { attachLeads } from "./inbox";
+import { downloadBlob } from "./spreadsheet";
+import { formatDateTime, formatPhone } from "./utils";
+import type {
+  ConversationMessage,
+  ConversationSession,
+  Lead,
+  MessageSenderType,
+} from "@/types";
+
+// "pdf" prints the HTML transcript; the browser's print dialog saves it
+export type TranscriptFormat = "pdf" | "html" | "json";
+
+export interface Transcript {
+  session: ConversationSession;
+  lead?: Lead; // Absent for orphan sessions
+  messages: ConversationMessage[];
+}
+
+const FETCH_PAGE_SIZE = 1000;
+
+const SENDER_LABELS: Record<MessageSenderType, string> = {
+  lead: "Lead",
+  agent: "Agent",
+  staff: "Staff",
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Helper to fetch every message in a session, oldest first
+export const fetchSessionMessages = async (
+  sessionId: string,
+): Promise<ConversationMessage[]> => {
+  const messages: ConversationMessage[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .schema("agents")
+      .from("conversation_messages")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    messages.push(...((data as ConversationMessage[]) || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return messages;
+  }
+};
+
+// Helper to fetch the org's transcripts with messages between two dates
+// (yyyy-MM-dd, inclusive). Only messages inside the range are included.
+export const fetchTranscriptsInRange = async (
+  organizationId: string,
+  dateFrom: string,
+  dateTo: string,
+): Promise<Transcript[]> => {
+  type MessageWithSession = ConversationMessage & {
+    session: ConversationSession;
+  };
+
+  const rows: MessageWithSession[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .schema("agents")
+      .from("conversation_messages")
+      .select("*, session:conversation_sessions!inner(*)")
+      .eq("session.organization_id", organizationId)
+      .gte("created_at", parseISO(dateFrom).toISOString())
+      .lt("created_at", addDays(parseISO(dateTo), 1).toISOString())
+      .order("created_at", { ascending: true })
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data as unknown as MessageWithSession[]) || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) break;
+  }
+
+  const transcripts = new Map<string, Transcript>();
+  for (const { session, ...message } of rows) {
+    const transcript = transcripts.get(session.id);
+    if (transcript) {
+      transcript.messages.push(message);
+    } else {
+      transcripts.set(session.id, { session, messages: [message] });
+    }
+  }
+
+  const leads = await attachLeads(
+    organizationId,
+    [...transcripts.values()].map((t) => t.session),
+  );
+  return leads.map((lead) => ({
+    ...transcripts.get(lead.session!.id)!,
+    lead: lead.id.startsWith("virtual-") ? undefined : lead,
+  }));
+};
+
+const renderTranscript = (transcript: Transcript) => {
+  const { session, lead, messages } = transcript;
+  const name =
+    lead?.contact_name ||
+    session.lead?.contact_name ||
+    formatPhone(session.phone);
+  const company = lead?.company_name || session.lead?.company_name;
+  const details: [string, string | undefined][] = [
+    ["Phone", formatPhone(session.phone)],
+    ["Company", company],
+    ["Status", lead?.status],
+    ["Score", lead?.qualification_score],
+    ["Control mode", session.control_mode],
+    [
+      "Escalated",
+      session.escalated_at ? formatDateTime(session.escalated_at) : undefined,
+    ],
+    ["Escalation reason", session.reason],
+    ["Started", formatDateTime(session.created_at)],
+  ];
+
+  return `
+<section class="transcript">
+  <h1>${escapeHtml(name)}</h1>
+  <dl>
+    ${details
+      .filter(([, value]) => value)
+      .map(
+        ([label, value]) =>
+          `<dt>${label}</dt><dd>${escapeHtml(String(value))}</dd>`,
+      )
+      .join("\n    ")}
+  </dl>
+  <ol class="messages">
+    ${messages
+      .map(
+        (m) => `<li class="${m.sender_type}">
+      <div class="meta"><strong>${escapeHtml(
+        m.sender_name || SENDER_LABELS[m.sender_type],
+      )}</strong> <time datetime="${m.created_at}">${formatDateTime(
+        m.created_at,
+      )}</time></div>
+      <div class="content">${escapeHtml(m.content || "")}</div>
+    </li>`,
+      )
+      .join("\n    ")}
+  </ol>
+  ${messages.length === 0 ? "<p>No messages.</p>" : ""}
+</section>`;
+};
+
+// Standalone HTML document with inline styles, one section per transcript
+export const buildTranscriptHtml = (
+  transcripts: Transcript[],
+) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Conversation transcript</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.75rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 0 0 1.5rem; font-size: 0.875rem; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  .messages { list-style: none; padding: 0; margin: 0; }
+  .messages li { border-left: 3px solid #d1d5db; padding: 0.25rem 0 0.25rem 0.75rem; margin-bottom: 0.75rem; break-inside: avoid; }
+  .messages li.lead { border-color: #3b82f6; }
+  .messages li.staff { border-color: #22c55e; }
+  .messages li.agent { border-color: #8b5cf6; }
+  .meta { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.125rem; }
+  .meta strong { color: #111827; }
+  .content { white-space: pre-wrap; word-break: break-word; font-size: 0.875rem; }
+  .transcript + .transcript { break-before: page; margin-top: 2rem; }
+  footer { margin-top: 2rem; font-size: 0.75rem; color: #9ca3af; }
+</style>
+</head>
+<body>
+${transcripts.map(renderTranscript).join("\n")}
+<footer>Exported ${formatDateTime(new Date())}</footer>
+</body>
+</html>`;
+
+// Print through a hidden iframe so the page itself is left alone
+const printHtml = (html: string) => {
+  const iframe = document.createElement("iframe");
+  iframe.style.position = "fixed";
+  iframe.style.width = "0";
+  iframe.style.height = "0";
+  iframe.style.border = "0";
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    iframe.remove();
+    throw new Error("Failed to open the print view");
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener("afterprint", () => iframe.remove());
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+export const downloadTranscripts = (
+  transcripts: Transcript[],
+  fileFormat: TranscriptFormat,
+  filename: string,
+) => {
+  if (fileFormat === "json") {
+    const payload = {
+      exported_at: new Date().toISOString(),
+      transcripts: transcripts.map(({ session, lead, messages }) => ({
+        lead: lead ?? null,
+        session,
+        messages,
+      })),
+    };
+    downloadBlob(
+      new Blob([JSON.stringify(payload, null, 2)], {
+        type: "application/json",
+      }),
+      `${filename}.json`,
+    );
+    return;
+  }
+
+  const html = buildTranscriptHtml(transcripts);
+  if (fileFormat === "pdf") {
+    printHtml(html);
+  } else {
+    downloadBlob(
+      new Blob([html], { type: "text/html;charset=utf-8" }),
+      `${filename}.html`,
+    );
+  }
+};
+
+// Export a single conversation with its full history
+export const exportTranscript = async (
+  session: ConversationSession,
+  lead: Lead | undefined,
+  fileFormat: TranscriptFormat,
+) => {
+  const messages = await fetchSessionMessages(session.id);
+  const slug = (lead?.contact_name || session.phone)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  downloadTranscripts(
+    [{ session, lead, messages }],
+    fileFormat,
+    `transcript-${slug || session.id}-${format(new Date(), "yyyy-MM-dd")}`,
+  );
+};
+
+// Export every conversation active in a date range; returns how many
+export const exportTranscriptsInRange = async (
+  organizationId: string,
+  dateFrom: string,
+  dateTo: string,
+  fileFormat: TranscriptFormat,
+): Promise<number> => {
+  const transcripts = await fetchTranscriptsInRange(
+    organizationId,
+    dateFrom,
+    dateTo,
+  );
+  if (transcripts.length > 0) {
+    downloadTranscripts(
+      transcripts,
+      fileFormat,
+      `transcripts-${dateFrom}-to-${dateTo}`,
+    );
+  }
+  return transcripts.length;
+};
@@ -5,6 +5,34 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Colour swatches for teams and tags
+export const SWATCH_COLORS = [
+  "#6366f1", // Indigo
+  "#8b5cf6", // Purple
+  "#ec4899", // Pink
+  "#ef4444", // Red
+  "#f97316", // Orange
+  "#eab308", // Yellow
+  "#22c55e", // Green
+  "#14b8a6", // Teal
+  "#06b6d4", // Cyan
+  "#3b82f6", // Blue
+];
+
+// Languages the agent can be configured to speak
+export const LANGUAGES = [
+  { value: "ru", label: "Russian" },
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "de", label: "German" },
+  { value: "fr", label: "French" },
+  { value: "zh", label: "Chinese" },
+];
+
+export function getLanguageLabel(code: string): string {
+  return LANGUAGES.find((lang) => lang.value === code)?.label ?? code;
+}
+
 // Format date for display
 export function formatDate(date: string | Date): string {
   return new Intl.DateTimeFormat("en-US", {
@@ -25,6 +53,68 @@ export function formatDateTime(date: string | Date): string {
   }).format(new Date(date));
 }
 
+// How far a time zone is ahead of UTC at a given moment
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The moment a wall-clock time (yyyy-MM-dd, HH:mm) happens in a time zone
+export function zonedTimeToDate(
+  day: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, date, hours, minutes);
+  const offset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  // The guess can sit on the other side of a DST change than the answer,
+  // so take the offset again at the first result
+  const corrected = getTimeZoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+// Format a moment as wall-clock time (HH:mm) in a time zone
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+}
+
+// The calendar day (yyyy-MM-dd) a moment falls on in a time zone
+export function formatDayInTimeZone(date: Date, timeZone: string): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
 // Format phone number
 export function formatPhone(phone: string): string {
   // Simple formatting - can be enhanced based on locale
@@ -35,6 +125,16 @@ export function formatPhone(phone: string): string {
   return phone;
 }
 
+// Normalize phone number to digits only, country code included
+export function normalizePhone(phone: string): string {
+  const cleaned = phone.replace(/\D/g, "");
+  // Russian numbers are often written with a trunk prefix 8 instead of +7
+  if (cleaned.length === 11 && cleaned.startsWith("8")) {
+    return `7${cleaned.slice(1)}`;
+  }
+  return cleaned;
+}
+
 // Get initials from name
 export function getInitials(name: string): string {
   return name
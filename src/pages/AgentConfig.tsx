@@ -22,7 +22,13 @@ import { CTATab } from "@/components/config/CTATab";
 import { EscalationTab } from "@/components/config/EscalationTab";
 import { IntegrationsTab } from "@/components/config/IntegrationsTab";
 import { GreetingTab } from "@/components/config/GreetingTab";
-import type { SalesConfigFormData } from "@/types";
+import { AssignmentTab } from "@/components/config/AssignmentTab";
+import { LeadFieldsTab } from "@/components/config/LeadFieldsTab";
+import {
+  DEFAULT_CALL_OUTCOMES,
+  DEFAULT_NO_SHOW_POLICY,
+  type SalesConfigFormData,
+} from "@/types";
 
 const configSchema = z.object({
   company_name: z.string().min(1, "Company name is required"),
@@ -36,8 +42,12 @@ const configSchema = z.object({
   escalation_phone: z.string().optional(),
   primary_language: z.enum(["ru", "en"]),
   supported_languages: z.array(z.string()).min(1),
+  timezone: z.string().optional(),
   call_duration_minutes: z.number().min(5).max(120),
   call_type_name: z.string().min(1),
+  call_outcomes: z
+    .array(z.string().min(1))
+    .min(1, "Add at least one call outcome"),
   product_info: z.record(
     z.object({
       title: z.string(),
@@ -170,6 +180,58 @@ const configSchema = z.object({
       bot_disclosure_message_en: z.string().optional(),
     })
     .optional(),
+  // Lead assignment
+  lead_assignment: z
+    .object({
+      enabled: z.boolean(),
+      strategy: z.enum(["round_robin", "timezone_region", "team"]),
+      trigger_scores: z.array(z.enum(["new", "hot", "warm", "cold"])),
+      team_id: z.string().optional(),
+      balance_workload: z.boolean(),
+      max_open_leads_per_rep: z.number().int().min(1).optional(),
+    })
+    .refine((rules) => rules.strategy !== "team" || !!rules.team_id, {
+      message: "Select a team for team-based assignment",
+      path: ["team_id"],
+    })
+    .optional(),
+  // No-show policy
+  no_show_policy: z
+    .object({
+      enabled: z.boolean(),
+      grace_minutes: z.number().int().min(5).max(240),
+      send_rebook_message: z.boolean(),
+      rebook_messages: z.record(z.string(), z.string()),
+      return_to_agent: z.boolean(),
+    })
+    .optional(),
+  // Custom lead fields
+  custom_lead_fields: z
+    .array(
+      z
+        .object({
+          key: z
+            .string()
+            .regex(
+              /^[a-z][a-z0-9_]{0,39}$/,
+              "Use lowercase letters, digits and underscores",
+            ),
+          label: z.string().min(1, "Label is required"),
+          type: z.enum(["text", "number", "select", "date", "boolean"]),
+          options: z.array(z.string().min(1)).optional(),
+          agent_collect: z.boolean(),
+          agent_instructions: z.string().optional(),
+        })
+        .refine((field) => field.type !== "select" || !!field.options?.length, {
+          message: "Add at least one option",
+          path: ["options"],
+        }),
+    )
+    .refine(
+      (fields) => new Set(fields.map((f) => f.key)).size === fields.length,
+      { message: "Field keys must be unique" },
+    )
+    .optional(),
   // Greeting messages
   greeting_messages: z.record(z.string()).optional(),
   // HITL settings
@@ -226,8 +288,10 @@ export function AgentConfigPage() {
         escalation_phone: config.escalation_phone || "",
         primary_language: config.primary_language,
         supported_languages: config.supported_languages,
+        timezone: config.timezone,
         call_duration_minutes: config.call_duration_minutes,
         call_type_name: config.call_type_name,
+        call_outcomes: config.call_outcomes ?? DEFAULT_CALL_OUTCOMES,
         product_info: config.product_info,
         qualification_questions: config.qualification_questions,
         scoring_criteria: config.scoring_criteria,
@@ -266,6 +330,14 @@ export function AgentConfigPage() {
           disclose_bot_identity: true,
           bot_disclosure_message_ru: "",
         },
+        lead_assignment: config.lead_assignment || {
+          enabled: false,
+          strategy: "round_robin",
+          trigger_scores: ["hot"],
+          balance_workload: true,
+        },
+        no_show_policy: config.no_show_policy || DEFAULT_NO_SHOW_POLICY,
+        custom_lead_fields: config.custom_lead_fields || [],
         greeting_messages: config.greeting_messages || { ru: "", en: "" },
         hitl_auto_release_hours: config.hitl_auto_release_hours ?? 24,
       });
@@ -354,6 +426,8 @@ export function AgentConfigPage() {
               <TabsTrigger value="qualification">Qualification</TabsTrigger>
               <TabsTrigger value="language">Language & Calls</TabsTrigger>
               <TabsTrigger value="team">Sales Team</TabsTrigger>
+              <TabsTrigger value="assignment">Lead Assignment</TabsTrigger>
+              <TabsTrigger value="lead-fields">Lead Fields</TabsTrigger>
               <TabsTrigger value="cta">CTA & BANT</TabsTrigger>
               <TabsTrigger value="escalation">Escalation</TabsTrigger>
               <TabsTrigger value="integrations">Integrations</TabsTrigger>
@@ -381,6 +455,14 @@ export function AgentConfigPage() {
               <SalesTeamTab form={form} />
             </TabsContent>
 
+            <TabsContent value="assignment">
+              <AssignmentTab form={form} />
+            </TabsContent>
+
+            <TabsContent value="lead-fields">
+              <LeadFieldsTab form={form} />
+            </TabsContent>
+
             <TabsContent value="cta">
               <CTATab form={form} />
             </TabsContent>
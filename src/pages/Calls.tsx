@@ -1,14 +1,31 @@
 import { useEffect, useState } from "react";
-import { Calendar, Clock, Phone, User, MoreHorizontal } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
 import {
-  Card,
-  CardContent,
-  CardDescription,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
+  addDays,
+  addWeeks,
+  format,
+  isValid,
+  parseISO,
+  subDays,
+  subWeeks,
+} from "date-fns";
+import {
+  Calendar,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+  Clock,
+  Inbox,
+  List,
+  Phone,
+  User,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
@@ -17,86 +34,247 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useAuthStore } from "@/stores/authStore";
-import { supabase } from "@/lib/supabase";
-import { formatDateTime, formatDate } from "@/lib/utils";
-import type { DiscoveryCall, CallStatus, CallFilters } from "@/types";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { fetchMembers } from "@/lib/api";
+import {
+  CALL_STATUS_LABELS,
+  fetchCalls,
+  getCalendarDays,
+  getCalendarRange,
+  isCallOverdue,
+  type CallCalendarView,
+} from "@/lib/calls";
+import {
+  escalateSession,
+  fetchLatestSessionByPhone,
+  prolongSession,
+  releaseSession,
+} from "@/lib/sessions";
+import { fetchTags } from "@/lib/tags";
+import { cn, formatDate, formatDateTime } from "@/lib/utils";
+import { LeadDetailPanel } from "@/components/leads";
+import {
+  CallCalendar,
+  CallOutcomeDialog,
+  CallStatusBadge,
+  OverdueCallsAlert,
+  getCallLeadName,
+} from "@/components/calls";
+import type {
+  CallFilters,
+  CallStatus,
+  CallWithLead,
+  ConversationSession,
+  Lead,
+  LeadWithSession,
+  Tag,
+  TeamMember,
+} from "@/types";
+
+type CallsView = "list" | CallCalendarView;
+
+const STATUS_OPTIONS = Object.entries(CALL_STATUS_LABELS) as [
+  CallStatus,
+  string,
+][];
 
 export function CallsPage() {
-  const { organization } = useAuthStore();
-  const [calls, setCalls] = useState<DiscoveryCall[]>([]);
+  const { organization, user } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [calls, setCalls] = useState<CallWithLead[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [filters, setFilters] = useState<CallFilters>({});
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedLead, setSelectedLead] = useState<LeadWithSession | null>(
+    null,
+  );
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [loggingCall, setLoggingCall] = useState<CallWithLead | null>(null);
+
+  // View, filters and the open call live in the URL so they can be linked
+  const viewParam = searchParams.get("view");
+  const view: CallsView =
+    viewParam === "day" || viewParam === "week" ? viewParam : "list";
+  const dateParam = searchParams.get("date");
+  const anchorDate =
+    dateParam && isValid(parseISO(dateParam))
+      ? parseISO(dateParam)
+      : new Date();
+  const calendarDays = view === "list" ? [] : getCalendarDays(anchorDate, view);
+
+  const filters: CallFilters = {
+    status: (searchParams.get("status") as CallStatus | null) ?? undefined,
+    rep_id: searchParams.get("rep") ?? undefined,
+    ...(view === "list"
+      ? {
+          from_date: searchParams.get("from") ?? undefined,
+          to_date: searchParams.get("to") ?? undefined,
+        }
+      : getCalendarRange(anchorDate, view)),
+  };
+  const selectedCallId = searchParams.get("call");
+  const selectedCall = calls.find((call) => call.id === selectedCallId);
+
+  const salesReps = config?.sales_reps || [];
+  const customFields = config?.custom_lead_fields || [];
+  const autoReleaseHours = config?.hitl_auto_release_hours || 24;
+
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const memberName = (id: string) => {
+    const member =
+      salesReps.find((r) => r.id === id) ?? members.find((m) => m.id === id);
+    return member?.name || member?.email || "Unknown rep";
+  };
 
   useEffect(() => {
-    if (organization?.id) {
-      fetchCalls();
+    if (!organization?.id) return;
+
+    if (config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
     }
-  }, [organization?.id, filters]);
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+    fetchTags(organization.id)
+      .then(setTags)
+      .catch((error) => {
+        console.error("Error fetching tags:", error);
+      });
+  }, [organization?.id]);
 
-  const fetchCalls = async () => {
+  useEffect(() => {
     if (!organization?.id) return;
 
+    let cancelled = false;
     setIsLoading(true);
-    try {
-      let query = supabase
-        .schema("sales")
-        .from("discovery_calls")
-        .select("*")
-        .eq("organization_id", organization.id)
-        .order("scheduled_at", { ascending: true });
-
-      if (filters.status) {
-        query = query.eq("status", filters.status);
-      }
-      if (filters.from_date) {
-        query = query.gte("scheduled_at", filters.from_date);
-      }
-      if (filters.to_date) {
-        query = query.lte("scheduled_at", filters.to_date);
-      }
+    fetchCalls(organization.id, filters)
+      .then((data) => {
+        if (!cancelled) setCalls(data);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Error fetching calls:", error);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load calls",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
 
-      const { data, error } = await query;
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    organization?.id,
+    filters.status,
+    filters.rep_id,
+    filters.from_date,
+    filters.to_date,
+  ]);
 
-      if (error) throw error;
-      setCalls((data as DiscoveryCall[]) || []);
-    } catch (error) {
-      console.error("Error fetching calls:", error);
-    } finally {
-      setIsLoading(false);
+  // Load the booked lead's latest conversation when a call is opened
+  useEffect(() => {
+    const lead = selectedCall?.lead;
+    if (!organization?.id || !lead) {
+      setSelectedLead(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSelectedLead({ ...lead, session: null });
+    fetchLatestSessionByPhone(organization.id, lead.phone)
+      .then((session) => {
+        if (!cancelled) setSelectedLead({ ...lead, session });
+      })
+      .catch((error) => {
+        console.error("Error fetching conversation:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [organization?.id, selectedCall?.id, selectedCall?.lead?.id]);
+
+  const handleSelectCall = (call: CallWithLead) => {
+    if (!call.lead) {
+      toast.error("The lead for this call no longer exists");
+      return;
     }
+    updateParams({ call: call.id });
   };
 
-  const getStatusBadgeVariant = (status: CallStatus) => {
-    switch (status) {
-      case "scheduled":
-        return "default" as const;
-      case "completed":
-        return "secondary" as const;
-      case "cancelled":
-        return "destructive" as const;
-      case "no_show":
-        return "outline" as const;
-      default:
-        return "secondary" as const;
+  const handleLeadUpdated = (lead: Lead) => {
+    setSelectedLead((prev) => ({ ...lead, session: prev?.session ?? null }));
+    setCalls((prev) =>
+      prev.map((call) => (call.lead_id === lead.id ? { ...call, lead } : call)),
+    );
+  };
+
+  const handleCallLogged = (updated: CallWithLead) => {
+    setCalls((prev) =>
+      prev.map((call) => (call.id === updated.id ? updated : call)),
+    );
+    if (updated.lead && selectedLead?.id === updated.lead.id) {
+      handleLeadUpdated(updated.lead);
     }
   };
 
-  const getStatusColor = (status: CallStatus) => {
-    switch (status) {
-      case "scheduled":
-        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
-      case "completed":
-        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
-      case "cancelled":
-        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
-      case "no_show":
-        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200";
-      default:
-        return "";
+  const handleSessionUpdated = (session: ConversationSession) => {
+    setSelectedLead((prev) => (prev ? { ...prev, session } : prev));
+  };
+
+  const runSessionAction = async (
+    action: (session: ConversationSession) => Promise<ConversationSession>,
+    errorMessage: string,
+  ) => {
+    if (!selectedLead?.session) return;
+
+    setIsActionLoading(true);
+    try {
+      handleSessionUpdated(await action(selectedLead.session));
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+    } finally {
+      setIsActionLoading(false);
     }
   };
 
+  const shiftCalendar = (direction: 1 | -1) => {
+    const next =
+      view === "day"
+        ? (direction > 0 ? addDays : subDays)(anchorDate, 1)
+        : (direction > 0 ? addWeeks : subWeeks)(anchorDate, 1);
+    updateParams({ date: format(next, "yyyy-MM-dd") });
+  };
+
   // Group calls by date
   const groupedCalls = calls.reduce(
     (acc, call) => {
@@ -107,22 +285,15 @@ export function CallsPage() {
       acc[date].push(call);
       return acc;
     },
-    {} as Record<string, DiscoveryCall[]>,
+    {} as Record<string, CallWithLead[]>,
   );
 
-  if (isLoading) {
-    return (
-      <div className="space-y-4">
-        <div className="flex items-center justify-between">
-          <Skeleton className="h-8 w-32" />
-          <Skeleton className="h-10 w-64" />
-        </div>
-        {[...Array(3)].map((_, i) => (
-          <Skeleton key={i} className="h-32 w-full" />
-        ))}
-      </div>
-    );
-  }
+  const hasFilters =
+    !!filters.status ||
+    !!filters.rep_id ||
+    (view === "list" && (!!filters.from_date || !!filters.to_date));
+
+  const session = selectedLead?.session;
 
   return (
     <div className="space-y-6">
@@ -133,19 +304,44 @@ export function CallsPage() {
             View and manage scheduled discovery calls
           </p>
         </div>
+        <div className="flex items-center gap-1 rounded-lg bg-muted p-1">
+          <Button
+            variant={view === "list" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => updateParams({ view: undefined, date: undefined })}
+          >
+            <List className="h-4 w-4 mr-2" />
+            List
+          </Button>
+          <Button
+            variant={view === "day" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => updateParams({ view: "day" })}
+          >
+            <Calendar className="h-4 w-4 mr-2" />
+            Day
+          </Button>
+          <Button
+            variant={view === "week" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => updateParams({ view: "week" })}
+          >
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Week
+          </Button>
+        </div>
       </div>
 
+      <OverdueCallsAlert onLogged={handleCallLogged} />
+
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
-          <div className="flex flex-col gap-4 md:flex-row md:items-center">
+          <div className="flex flex-col gap-4 md:flex-row md:flex-wrap md:items-center">
             <Select
               value={filters.status || "all"}
               onValueChange={(value) =>
-                setFilters((f) => ({
-                  ...f,
-                  status: value === "all" ? undefined : (value as CallStatus),
-                }))
+                updateParams({ status: value === "all" ? undefined : value })
               }
             >
               <SelectTrigger className="w-40">
@@ -153,83 +349,334 @@ export function CallsPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="scheduled">Scheduled</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-                <SelectItem value="no_show">No Show</SelectItem>
+                {STATUS_OPTIONS.map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.rep_id || "all"}
+              onValueChange={(value) =>
+                updateParams({ rep: value === "all" ? undefined : value })
+              }
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Rep" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Reps</SelectItem>
+                {salesReps.map((rep) => (
+                  <SelectItem key={rep.id} value={rep.id}>
+                    {rep.name || rep.email}
+                  </SelectItem>
+                ))}
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name || member.email}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+
+            {view === "list" ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Input
+                  type="date"
+                  value={filters.from_date ?? ""}
+                  max={filters.to_date}
+                  onChange={(e) =>
+                    updateParams({ from: e.target.value || undefined })
+                  }
+                  className="w-[150px]"
+                  aria-label="From date"
+                />
+                to
+                <Input
+                  type="date"
+                  value={filters.to_date ?? ""}
+                  min={filters.from_date}
+                  onChange={(e) =>
+                    updateParams({ to: e.target.value || undefined })
+                  }
+                  className="w-[150px]"
+                  aria-label="To date"
+                />
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => shiftCalendar(-1)}
+                  aria-label="Previous"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateParams({ date: undefined })}
+                >
+                  Today
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => shiftCalendar(1)}
+                  aria-label="Next"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <span className="text-sm font-medium">
+                  {view === "day"
+                    ? format(anchorDate, "EEEE, MMM d, yyyy")
+                    : `${format(calendarDays[0], "MMM d")} – ${format(
+                        calendarDays[calendarDays.length - 1],
+                        "MMM d, yyyy",
+                      )}`}
+                </span>
+              </div>
+            )}
+
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  updateParams({
+                    status: undefined,
+                    rep: undefined,
+                    from: undefined,
+                    to: undefined,
+                  })
+                }
+              >
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Calls List */}
-      <div className="space-y-6">
-        {Object.entries(groupedCalls).map(([date, dateCalls]) => (
-          <div key={date} className="space-y-3">
-            <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
-              <Calendar className="h-4 w-4" />
-              {date}
-            </h3>
-            <div className="space-y-2">
-              {dateCalls.map((call) => (
-                <Card key={call.id}>
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-4">
-                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
-                          <Phone className="h-5 w-5 text-primary" />
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : view !== "list" ? (
+        <Card>
+          <CardContent className="pt-6">
+            <CallCalendar
+              calls={calls}
+              members={members}
+              salesReps={salesReps}
+              days={calendarDays}
+              view={view}
+              repId={filters.rep_id}
+              selectedCallId={selectedCallId}
+              onSelectCall={handleSelectCall}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        /* Calls List */
+        <div className="space-y-6">
+          {Object.entries(groupedCalls).map(([date, dateCalls]) => (
+            <div key={date} className="space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                {date}
+              </h3>
+              <div className="space-y-2">
+                {dateCalls.map((call) => (
+                  <Card
+                    key={call.id}
+                    className={cn(
+                      "cursor-pointer transition-colors hover:bg-muted/50",
+                      call.id === selectedCallId && "border-primary",
+                    )}
+                    onClick={() => handleSelectCall(call)}
+                  >
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+                            <Phone className="h-5 w-5 text-primary" />
+                          </div>
+                          <div>
+                            <p className="font-medium">
+                              {getCallLeadName(call)}
+                              {call.lead?.contact_name &&
+                                call.lead.company_name && (
+                                  <span className="font-normal text-muted-foreground">
+                                    {" "}
+                                    · {call.lead.company_name}
+                                  </span>
+                                )}
+                            </p>
+                            <p className="text-sm text-muted-foreground flex items-center gap-3">
+                              <span className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {formatDateTime(call.scheduled_at)} ·{" "}
+                                {call.duration_minutes} min
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <User className="h-3 w-3" />
+                                {memberName(call.rep_id)}
+                              </span>
+                            </p>
+                          </div>
                         </div>
-                        <div>
-                          <p className="font-medium">
-                            {formatDateTime(call.scheduled_at)}
-                          </p>
-                          <p className="text-sm text-muted-foreground flex items-center gap-1">
-                            <Clock className="h-3 w-3" />
-                            {call.duration_minutes} min call
-                          </p>
+
+                        <div className="flex items-center gap-2">
+                          {isCallOverdue(call) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setLoggingCall(call);
+                              }}
+                            >
+                              <ClipboardCheck className="h-4 w-4 mr-2" />
+                              Log outcome
+                            </Button>
+                          )}
+                          <CallStatusBadge status={call.status} />
                         </div>
                       </div>
 
-                      <div className="flex items-center gap-4">
-                        <span
-                          className={`inline-flex rounded-full px-2 py-1 text-xs font-medium ${getStatusColor(call.status)}`}
-                        >
-                          {call.status.replace("_", " ")}
-                        </span>
-                        <Button variant="ghost" size="icon">
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
+                      {(call.outcome || call.notes || call.next_step) && (
+                        <div className="mt-3 space-y-1 rounded-lg bg-muted/50 p-3 text-sm">
+                          {call.outcome && (
+                            <p className="font-medium">{call.outcome}</p>
+                          )}
+                          {call.notes && (
+                            <p className="text-muted-foreground">
+                              {call.notes}
+                            </p>
+                          )}
+                          {call.next_step && (
+                            <p className="text-muted-foreground">
+                              Next: {call.next_step}
+                              {call.follow_up_at &&
+                                ` by ${formatDate(parseISO(call.follow_up_at))}`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          ))}
 
-                    {call.notes && (
-                      <div className="mt-3 rounded-lg bg-muted/50 p-3">
-                        <p className="text-sm text-muted-foreground">
-                          {call.notes}
-                        </p>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              ))}
+          {calls.length === 0 && (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Phone className="mx-auto h-12 w-12 text-muted-foreground/50" />
+                <p className="mt-4 text-muted-foreground">
+                  {hasFilters
+                    ? "No calls match your filters"
+                    : "No discovery calls scheduled yet. They will appear here when leads are qualified."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <CallOutcomeDialog
+        call={loggingCall}
+        onOpenChange={(open) => !open && setLoggingCall(null)}
+        onLogged={handleCallLogged}
+      />
+
+      {/* Lead and conversation for the open call */}
+      <Sheet
+        open={!!selectedLead}
+        onOpenChange={(open) => !open && updateParams({ call: undefined })}
+      >
+        <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Lead Details</SheetTitle>
+          </SheetHeader>
+          {selectedCall && (
+            <div className="mt-4 flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  {formatDateTime(selectedCall.scheduled_at)} ·{" "}
+                  {selectedCall.duration_minutes} min
+                </p>
+                <p className="text-muted-foreground">
+                  with {memberName(selectedCall.rep_id)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <CallStatusBadge status={selectedCall.status} />
+                {selectedCall.status !== "cancelled" &&
+                  new Date(selectedCall.scheduled_at).getTime() <=
+                    Date.now() && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLoggingCall(selectedCall)}
+                    >
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      {selectedCall.status === "scheduled"
+                        ? "Log outcome"
+                        : "Edit outcome"}
+                    </Button>
+                  )}
+                {session && session.control_mode !== "agent" && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/inbox?session=${session.id}`}>
+                      <Inbox className="h-4 w-4 mr-2" />
+                      Inbox
+                    </Link>
+                  </Button>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
-
-        {calls.length === 0 && (
-          <Card>
-            <CardContent className="p-8 text-center">
-              <Phone className="mx-auto h-12 w-12 text-muted-foreground/50" />
-              <p className="mt-4 text-muted-foreground">
-                {filters.status
-                  ? "No calls match your filters"
-                  : "No discovery calls scheduled yet. They will appear here when leads are qualified."}
-              </p>
-            </CardContent>
-          </Card>
-        )}
-      </div>
+          )}
+          {selectedLead && (
+            <div className="mt-4">
+              <LeadDetailPanel
+                lead={selectedLead}
+                autoReleaseHours={autoReleaseHours}
+                customFields={customFields}
+                tags={tags}
+                onEscalate={() =>
+                  runSessionAction(
+                    (s) => escalateSession(s, user),
+                    "Failed to escalate conversation",
+                  )
+                }
+                onRelease={() =>
+                  runSessionAction(
+                    (s) => releaseSession(s, user),
+                    "Failed to release conversation",
+                  )
+                }
+                onProlong={() =>
+                  runSessionAction(
+                    (s) => prolongSession(s, user),
+                    "Failed to prolong human control",
+                  )
+                }
+                onLeadUpdated={handleLeadUpdated}
+                onSessionUpdated={handleSessionUpdated}
+                isLoading={isActionLoading}
+              />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, MessageSquare, Search, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import {
+  SEARCH_PAGE_SIZE,
+  getSearchTerms,
+  searchMessages,
+} from "@/lib/conversationSearch";
+import {
+  escalateSession,
+  prolongSession,
+  releaseSession,
+} from "@/lib/sessions";
+import { fetchTags } from "@/lib/tags";
+import { LeadDetailPanel } from "@/components/leads";
+import { MessageSearchResult } from "@/components/search";
+import type {
+  ConversationControlMode,
+  ConversationMessage,
+  ConversationSession,
+  Lead,
+  MessageSearchFilters,
+  MessageSearchHit,
+  MessageSenderType,
+  Tag,
+} from "@/types";
+
+const SENDER_OPTIONS: { value: MessageSenderType; label: string }[] = [
+  { value: "lead", label: "Lead" },
+  { value: "agent", label: "Agent" },
+  { value: "staff", label: "Staff" },
+];
+
+const CONTROL_MODE_OPTIONS: {
+  value: ConversationControlMode;
+  label: string;
+}[] = [
+  { value: "agent", label: "Agent" },
+  { value: "human", label: "Escalated" },
+  { value: "paused", label: "Paused" },
+];
+
+export function ConversationSearchPage() {
+  const { organization, user } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState(searchParams.get("q") ?? "");
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isActionLoading, setIsActionLoading] = useState(false);
+
+  // The search lives in the URL so results can be shared
+  const filters: MessageSearchFilters = {
+    query: searchParams.get("q")?.trim() ?? "",
+    sender_type:
+      (searchParams.get("sender") as MessageSenderType | null) ?? undefined,
+    control_mode:
+      (searchParams.get("mode") as ConversationControlMode | null) ?? undefined,
+    date_from: searchParams.get("from") ?? undefined,
+    date_to: searchParams.get("to") ?? undefined,
+  };
+  const terms = getSearchTerms(filters.query);
+  const selectedId = searchParams.get("message");
+  const selected = hits.find((hit) => hit.message.id === selectedId) ?? null;
+
+  const customFields = config?.custom_lead_fields || [];
+  const autoReleaseHours = config?.hitl_auto_release_hours || 24;
+
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const runSearch = async (before?: ConversationMessage) => {
+    if (!organization?.id || !filters.query) return;
+    try {
+      const page = await searchMessages(organization.id, filters, before);
+      setHits((prev) => (before ? [...prev, ...page] : page));
+      setHasMore(page.length === SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error("Error searching conversations:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to search");
+    } finally {
+      setIsSearching(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    if (config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+    fetchTags(organization.id)
+      .then(setTags)
+      .catch((error) => {
+        console.error("Error fetching tags:", error);
+      });
+  }, [organization?.id]);
+
+  useEffect(() => {
+    setHits([]);
+    setHasMore(false);
+    if (!filters.query) return;
+
+    setIsSearching(true);
+    runSearch();
+  }, [
+    organization?.id,
+    filters.query,
+    filters.sender_type,
+    filters.control_mode,
+    filters.date_from,
+    filters.date_to,
+  ]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ q: draft.trim() || undefined, message: undefined });
+  };
+
+  const handleLoadMore = () => {
+    if (hits.length === 0) return;
+    setIsLoadingMore(true);
+    runSearch(hits[hits.length - 1].message);
+  };
+
+  // A session can match several times; keep every hit in step
+  const patchSession = (session: ConversationSession) => {
+    setHits((prev) =>
+      prev.map((hit) =>
+        hit.lead.session?.id === session.id
+          ? { ...hit, lead: { ...hit.lead, session } }
+          : hit,
+      ),
+    );
+  };
+
+  const handleLeadUpdated = (lead: Lead) => {
+    setHits((prev) =>
+      prev.map((hit) =>
+        hit.lead.id === selected?.lead.id
+          ? { ...hit, lead: { ...lead, session: hit.lead.session } }
+          : hit,
+      ),
+    );
+  };
+
+  const runSessionAction = async (
+    action: (session: ConversationSession) => Promise<ConversationSession>,
+    errorMessage: string,
+  ) => {
+    if (!selected?.lead.session) return;
+
+    setIsActionLoading(true);
+    try {
+      patchSession(await action(selected.lead.session));
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const hasFilters =
+    !!filters.sender_type ||
+    !!filters.control_mode ||
+    !!filters.date_from ||
+    !!filters.date_to;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">Search</h2>
+        <p className="text-muted-foreground">
+          Find messages across every conversation
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder='Search messages... e.g. SSO, "annual plan", pricing -discount'
+                className="pl-9"
+                autoFocus
+              />
+            </div>
+            <Button type="submit" disabled={!draft.trim()}>
+              Search
+            </Button>
+          </form>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={filters.sender_type ?? "all"}
+              onValueChange={(value) =>
+                updateParams({
+                  sender: value === "all" ? undefined : value,
+                  message: undefined,
+                })
+              }
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any sender</SelectItem>
+                {SENDER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.control_mode ?? "all"}
+              onValueChange={(value) =>
+                updateParams({
+                  mode: value === "all" ? undefined : value,
+                  message: undefined,
+                })
+              }
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any control mode</SelectItem>
+                {CONTROL_MODE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="date"
+                value={filters.date_from ?? ""}
+                max={filters.date_to}
+                onChange={(e) =>
+                  updateParams({
+                    from: e.target.value || undefined,
+                    message: undefined,
+                  })
+                }
+                className="w-[150px]"
+                aria-label="From date"
+              />
+              to
+              <Input
+                type="date"
+                value={filters.date_to ?? ""}
+                min={filters.date_from}
+                onChange={(e) =>
+                  updateParams({
+                    to: e.target.value || undefined,
+                    message: undefined,
+                  })
+                }
+                className="w-[150px]"
+                aria-label="To date"
+              />
+            </div>
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  updateParams({
+                    sender: undefined,
+                    mode: undefined,
+                    from: undefined,
+                    to: undefined,
+                    message: undefined,
+                  })
+                }
+              >
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <Card className="self-start">
+          <CardContent className="space-y-2 pt-6">
+            {isSearching ? (
+              [...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-24 w-full" />
+              ))
+            ) : hits.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                <Search className="h-12 w-12 mb-3 opacity-50" />
+                <p className="font-medium">
+                  {filters.query
+                    ? "No matching messages"
+                    : "Search transcripts"}
+                </p>
+                <p className="text-sm text-center">
+                  {filters.query
+                    ? "Try other words or fewer filters"
+                    : "Results show every conversation in your organization"}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-[calc(100vh-22rem)] overflow-y-auto pr-1">
+                {hits.map((hit) => (
+                  <MessageSearchResult
+                    key={hit.message.id}
+                    hit={hit}
+                    terms={terms}
+                    isSelected={hit.message.id === selectedId}
+                    onSelect={() => updateParams({ message: hit.message.id })}
+                  />
+                ))}
+                {hasMore && (
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleLoadMore}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      Load more results
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected ? (
+          <LeadDetailPanel
+            lead={selected.lead}
+            autoReleaseHours={autoReleaseHours}
+            customFields={customFields}
+            tags={tags}
+            focusMessageId={selected.message.id}
+            onEscalate={() =>
+              runSessionAction(
+                (session) => escalateSession(session, user),
+                "Failed to escalate conversation",
+              )
+            }
+            onRelease={() =>
+              runSessionAction(
+                (session) => releaseSession(session, user),
+                "Failed to release conversation",
+              )
+            }
+            onProlong={() =>
+              runSessionAction(
+                (session) => prolongSession(session, user),
+                "Failed to prolong human control",
+              )
+            }
+            onLeadUpdated={handleLeadUpdated}
+            onSessionUpdated={patchSession}
+            isLoading={isActionLoading}
+          />
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+              <MessageSquare className="h-16 w-16 mb-4 opacity-30" />
+              <p className="font-medium">
+                Select a result to open the conversation
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
+import { parseISO } from "date-fns";
 import {
   Users,
   Phone,
@@ -19,102 +20,216 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useAuthStore } from "@/stores/authStore";
-import { supabase } from "@/lib/supabase";
-import { formatDateTime } from "@/lib/utils";
-import type { Lead, DiscoveryCall, DashboardMetrics } from "@/types";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { fetchMembers } from "@/lib/api";
+import {
+  DASHBOARD_RANGE_LABELS,
+  fetchCallsCount,
+  fetchDashboardMetrics,
+  fetchRecentLeads,
+  fetchUpcomingCalls,
+  getCustomRange,
+  getPresetRange,
+  getPreviousRange,
+  getRangeBounds,
+  getScopeRepIds,
+  type DashboardRange,
+  type DashboardRangePreset,
+} from "@/lib/dashboard";
+import {
+  cn,
+  formatDate,
+  formatDateTime,
+  formatDayInTimeZone,
+} from "@/lib/utils";
+import { NoShowReport, OverdueCallsAlert } from "@/components/calls";
+import type {
+  Lead,
+  DiscoveryCall,
+  DashboardMetrics,
+  TeamMember,
+} from "@/types";
+
+const DEFAULT_PRESET: DashboardRangePreset = "last_30_days";
+
+const RANGE_OPTIONS = Object.entries(DASHBOARD_RANGE_LABELS) as [
+  DashboardRangePreset,
+  string,
+][];
+
+const formatRange = (range: DashboardRange) =>
+  range.from === range.to
+    ? formatDate(parseISO(range.from))
+    : `${formatDate(parseISO(range.from))} – ${formatDate(parseISO(range.to))}`;
+
+// Change against the previous period; rates change by percentage points
+function PeriodChange({
+  current,
+  previous,
+  isRate,
+}: {
+  current: number;
+  previous: number;
+  isRate?: boolean;
+}) {
+  const diff = current - previous;
+  const text = isRate
+    ? `${diff.toFixed(1)} pts`
+    : previous > 0
+      ? `${diff} (${((diff / previous) * 100).toFixed(0)}%)`
+      : String(diff);
+
+  return (
+    <p
+      className={cn(
+        "text-xs",
+        diff > 0
+          ? "text-green-600"
+          : diff < 0
+            ? "text-red-600"
+            : "text-muted-foreground",
+      )}
+    >
+      {diff > 0 && "+"}
+      {text} vs previous period
+    </p>
+  );
+}
 
 export function DashboardPage() {
-  const { organization } = useAuthStore();
+  const { organization, selectedTeamId, teams } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+  const [previousMetrics, setPreviousMetrics] =
+    useState<DashboardMetrics | null>(null);
+  const [todayCallsCount, setTodayCallsCount] = useState(0);
   const [recentLeads, setRecentLeads] = useState<Lead[]>([]);
   const [upcomingCalls, setUpcomingCalls] = useState<DiscoveryCall[]>([]);
+  const [members, setMembers] = useState<TeamMember[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    if (organization?.id) {
-      fetchDashboardData();
-    }
-  }, [organization?.id]);
+  // Days start and end in the org's time zone, not the viewer's or UTC
+  const timeZone =
+    config?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const today = formatDayInTimeZone(new Date(), timeZone);
 
-  const fetchDashboardData = async () => {
-    if (!organization?.id) return;
+  // The period and rep live in the URL so a view can be linked
+  const presetParam = searchParams.get("range");
+  const preset =
+    RANGE_OPTIONS.find(([value]) => value === presetParam)?.[0] ??
+    DEFAULT_PRESET;
+  const range: DashboardRange =
+    preset === "custom"
+      ? getCustomRange(searchParams.get("from"), searchParams.get("to"), today)
+      : getPresetRange(preset, today);
+  const previousRange = getPreviousRange(range);
+  const bounds = getRangeBounds(range, timeZone);
+  const rep = members?.find((m) => m.id === searchParams.get("rep"));
+  const team = teams.find((t) => t.id === selectedTeamId);
 
-    setIsLoading(true);
-    try {
-      // Fetch metrics
-      const [leadsResult, callsResult] = await Promise.all([
-        supabase
-          .schema("sales")
-          .from("leads")
-          .select("qualification_score, status", { count: "exact" })
-          .eq("organization_id", organization.id),
-        supabase
-          .schema("sales")
-          .from("discovery_calls")
-          .select("status, scheduled_at", { count: "exact" })
-          .eq("organization_id", organization.id)
-          .gte("scheduled_at", new Date().toISOString().split("T")[0]),
-      ]);
+  // undefined counts the whole org; null while members are loading
+  const repIds =
+    members === null
+      ? null
+      : rep
+        ? getScopeRepIds([rep], config?.sales_reps ?? [])
+        : selectedTeamId
+          ? getScopeRepIds(members, config?.sales_reps ?? [])
+          : undefined;
+  const scopeKey = repIds === null ? null : (repIds?.join(",") ?? "all");
 
-      const leads = leadsResult.data || [];
-      const calls = callsResult.data || [];
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const handlePresetChange = (value: DashboardRangePreset) => {
+    // A custom range starts from the period that was on screen
+    updateParams(
+      value === "custom"
+        ? { range: value, from: range.from, to: range.to }
+        : { range: value, from: undefined, to: undefined },
+    );
+  };
 
-      const totalLeads = leads.length;
-      const qualifiedScores = ["hot", "warm", "cold"];
-      const newLeads = leads.filter(
-        (l) => !qualifiedScores.includes(l.qualification_score),
-      ).length;
-      const qualifiedLeads = leads.filter((l) =>
-        qualifiedScores.includes(l.qualification_score),
-      ).length;
-      const convertedLeads = leads.filter(
-        (l) => l.status === "converted" || l.status === "scheduled",
-      ).length;
-      const todayCalls = calls.filter((c) =>
-        c.scheduled_at?.startsWith(new Date().toISOString().split("T")[0]),
-      ).length;
+  useEffect(() => {
+    if (organization?.id && config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+  }, [organization?.id]);
 
-      setMetrics({
-        newLeadsCount: newLeads,
-        qualifiedLeadsCount: qualifiedLeads,
-        scheduledCallsCount: calls.filter((c) => c.status === "scheduled")
-          .length,
-        conversionRate:
-          totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0,
-        todayCallsCount: todayCalls,
+  useEffect(() => {
+    setMembers(null);
+    fetchMembers(selectedTeamId ?? undefined)
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+        setMembers([]);
       });
+  }, [organization?.id, selectedTeamId]);
 
-      // Fetch recent leads
-      const { data: recentLeadsData } = await supabase
-        .schema("sales")
-        .from("leads")
-        .select("*")
-        .eq("organization_id", organization.id)
-        .order("created_at", { ascending: false })
-        .limit(5);
+  useEffect(() => {
+    if (!organization?.id || repIds === null) return;
 
-      setRecentLeads((recentLeadsData as Lead[]) || []);
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([
+      fetchDashboardMetrics(organization.id, bounds, repIds),
+      fetchDashboardMetrics(
+        organization.id,
+        getRangeBounds(previousRange, timeZone),
+        repIds,
+      ),
+      fetchCallsCount(
+        organization.id,
+        getRangeBounds({ from: today, to: today }, timeZone),
+        repIds,
+      ),
+      fetchRecentLeads(organization.id, repIds),
+      fetchUpcomingCalls(organization.id, repIds),
+    ])
+      .then(([current, previous, todayCalls, leads, calls]) => {
+        if (cancelled) return;
+        setMetrics(current);
+        setPreviousMetrics(previous);
+        setTodayCallsCount(todayCalls);
+        setRecentLeads(leads);
+        setUpcomingCalls(calls);
+      })
+      .catch((error) => {
+        console.error("Error fetching dashboard data:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
 
-      // Fetch upcoming calls
-      const { data: upcomingCallsData } = await supabase
-        .schema("sales")
-        .from("discovery_calls")
-        .select("*")
-        .eq("organization_id", organization.id)
-        .eq("status", "scheduled")
-        .gte("scheduled_at", new Date().toISOString())
-        .order("scheduled_at", { ascending: true })
-        .limit(5);
-
-      setUpcomingCalls((upcomingCallsData as DiscoveryCall[]) || []);
-    } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [organization?.id, scopeKey, range.from, range.to, timeZone]);
 
   const getScoreIcon = (score: string) => {
     switch (score) {
@@ -129,9 +244,81 @@ export function DashboardPage() {
     }
   };
 
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Dashboard</h2>
+          <p className="text-muted-foreground">
+            {team ? `${team.name} · ` : ""}
+            {rep ? `${rep.name || rep.email} · ` : ""}
+            {formatRange(range)}, compared with {formatRange(previousRange)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={handlePresetChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset === "custom" && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) =>
+                  e.target.value && updateParams({ from: e.target.value })
+                }
+                className="w-40"
+              />
+              to
+              <Input
+                type="date"
+                value={range.to}
+                min={range.from}
+                max={today}
+                onChange={(e) =>
+                  e.target.value && updateParams({ to: e.target.value })
+                }
+                className="w-40"
+              />
+            </div>
+          )}
+          <Select
+            value={rep?.id || "all"}
+            onValueChange={(value) =>
+              updateParams({ rep: value === "all" ? undefined : value })
+            }
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Rep" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">
+                {team ? "Everyone in the team" : "All Reps"}
+              </SelectItem>
+              {members?.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <OverdueCallsAlert />
+
+      {/* Metrics Cards */}
+      {isLoading || !metrics || !previousMetrics ? (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           {[...Array(4)].map((_, i) => (
             <Card key={i}>
@@ -144,67 +331,77 @@ export function DashboardPage() {
             </Card>
           ))}
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold tracking-tight">Dashboard</h2>
-        <p className="text-muted-foreground">
-          Overview of your sales pipeline and upcoming calls
-        </p>
-      </div>
-
-      {/* Metrics Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">New Leads</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{metrics?.newLeadsCount}</div>
-          </CardContent>
-        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">New Leads</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{metrics.newLeadsCount}</div>
+              <PeriodChange
+                current={metrics.newLeadsCount}
+                previous={previousMetrics.newLeadsCount}
+              />
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Qualified</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {metrics?.qualifiedLeadsCount}
-            </div>
-          </CardContent>
-        </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Qualified</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {metrics.qualifiedLeadsCount}
+              </div>
+              <PeriodChange
+                current={metrics.qualifiedLeadsCount}
+                previous={previousMetrics.qualifiedLeadsCount}
+              />
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Calls Today</CardTitle>
-            <Phone className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{metrics?.todayCallsCount}</div>
-          </CardContent>
-        </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Calls</CardTitle>
+              <Phone className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {metrics.callsCount}
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  {todayCallsCount} today
+                </span>
+              </div>
+              <PeriodChange
+                current={metrics.callsCount}
+                previous={previousMetrics.callsCount}
+              />
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">
-              Conversion Rate
-            </CardTitle>
-            <Calendar className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">
-              {metrics?.conversionRate.toFixed(1)}%
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">
+                Conversion Rate
+              </CardTitle>
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {metrics.conversionRate.toFixed(1)}%
+              </div>
+              <PeriodChange
+                current={metrics.conversionRate}
+                previous={previousMetrics.conversionRate}
+                isRate
+              />
+            </CardContent>
+          </Card>
+        </div>
+      )}
 
       <div className="grid gap-6 md:grid-cols-2">
         {/* Recent Leads */}
@@ -309,6 +506,13 @@ export function DashboardPage() {
           </CardContent>
         </Card>
       </div>
+
+      <NoShowReport
+        from={bounds.start}
+        to={bounds.end}
+        repIds={repIds ?? undefined}
+        description={`Calls due ${formatRange(range)}`}
+      />
     </div>
   );
 }
@@ -0,0 +1,440 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Inbox as InboxIcon, Keyboard } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/stores/authStore";
+import { useSalesConfigStore } from "@/stores/salesConfigStore";
+import { supabase } from "@/lib/supabase";
+import { fetchMembers } from "@/lib/api";
+import { fetchInbox, type InboxFilter } from "@/lib/inbox";
+import {
+  claimSession,
+  escalateSession,
+  markSessionRead,
+  prolongSession,
+  releaseSession,
+  takeOverSession,
+  unclaimSession,
+} from "@/lib/sessions";
+import { fetchTags } from "@/lib/tags";
+import { LeadDetailPanel } from "@/components/leads";
+import { InboxListItem } from "@/components/inbox";
+import type {
+  ConversationSession,
+  Lead,
+  LeadWithSession,
+  Tag,
+  TeamMember,
+} from "@/types";
+
+// SLA timers only need minute precision
+const CLOCK_TICK_MS = 30 * 1000;
+
+const FILTERS: { value: InboxFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "mine", label: "Mine" },
+  { value: "unclaimed", label: "Unclaimed" },
+];
+
+// Keyboard shortcuts are ignored while typing
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function InboxPage() {
+  const { organization, user, currentMembership } = useAuthStore();
+  const { config, fetchConfig } = useSalesConfigStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [items, setItems] = useState<LeadWithSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [isActionLoading, setIsActionLoading] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  // Only the latest inbox request may replace the list
+  const latestRequest = useRef(0);
+
+  // Filter and selection live in the URL so a conversation can be linked
+  const filterParam = searchParams.get("filter");
+  const filter: InboxFilter =
+    filterParam === "mine" || filterParam === "unclaimed" ? filterParam : "all";
+  const selectedSessionId = searchParams.get("session");
+  // The conversation the rep opened themselves (a link counts), as opposed
+  // to one shown because nothing was selected or the last one was released
+  const [openedSessionId, setOpenedSessionId] = useState(selectedSessionId);
+
+  const customFields = config?.custom_lead_fields || [];
+  const autoReleaseHours = config?.hitl_auto_release_hours || 24;
+
+  const matchesFilter = (item: LeadWithSession, value: InboxFilter) => {
+    const claimedBy = item.session?.claimed_by;
+    if (value === "mine")
+      return !!claimedBy && claimedBy === currentMembership?.id;
+    if (value === "unclaimed") return !claimedBy;
+    return true;
+  };
+  const visible = items.filter((item) => matchesFilter(item, filter));
+  const selected =
+    items.find((item) => item.session?.id === selectedSessionId) ?? null;
+  const selectedIndex = visible.findIndex(
+    (item) => item.session?.id === selectedSessionId,
+  );
+
+  const isManager =
+    user?.role === "admin" || user?.role === "manager" || user?.is_superadmin;
+  const memberName = (id?: string | null) => {
+    if (!id) return null;
+    const member = members.find((m) => m.id === id);
+    return member?.name || member?.email || "Unknown member";
+  };
+
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const selectItem = (item: LeadWithSession | undefined) => {
+    if (!item?.session) return;
+    setOpenedSessionId(item.session.id);
+    updateParams({ session: item.session.id });
+    document
+      .getElementById(`inbox-${item.session.id}`)
+      ?.scrollIntoView({ block: "nearest" });
+  };
+
+  const loadInbox = async () => {
+    if (!organization?.id) return;
+    const requestId = ++latestRequest.current;
+    try {
+      const data = await fetchInbox(organization.id);
+      if (requestId === latestRequest.current) setItems(data);
+    } catch (error) {
+      if (requestId !== latestRequest.current) return;
+      console.error("Error fetching inbox:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load inbox",
+      );
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!organization?.id) return;
+
+    setIsLoading(true);
+    loadInbox();
+    if (config?.organization_id !== organization.id) {
+      fetchConfig(organization.id);
+    }
+    fetchMembers()
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error fetching members:", error);
+      });
+    fetchTags(organization.id)
+      .then(setTags)
+      .catch((error) => {
+        console.error("Error fetching tags:", error);
+      });
+
+    // Escalations, releases, claims and new messages all touch the session
+    const channel = supabase
+      .channel(`inbox_${organization.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "agents",
+          table: "conversation_sessions",
+          filter: `organization_id=eq.${organization.id}`,
+        },
+        () => loadInbox(),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organization?.id]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Open the longest-waiting conversation when nothing is selected
+  useEffect(() => {
+    if (!isLoading && !selected && visible.length > 0) {
+      updateParams({ session: visible[0].session!.id });
+    }
+  }, [isLoading, selected, visible.length]);
+
+  // Opening a conversation (or new messages arriving while it is open)
+  // clears its unread badge; one that was only shown keeps it
+  useEffect(() => {
+    const session = selected?.session;
+    if (!session || session.unread_count === 0) return;
+    if (session.id !== openedSessionId) return;
+
+    markSessionRead(session.id)
+      .then(() => patchSession({ ...session, unread_count: 0 }))
+      .catch((error) => {
+        console.error("Error marking session read:", error);
+      });
+  }, [selected?.session?.id, selected?.session?.unread_count, openedSessionId]);
+
+  const patchSession = (session: ConversationSession) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.session?.id === session.id ? { ...item, session } : item,
+      ),
+    );
+  };
+
+  const handleLeadUpdated = (lead: Lead) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.id === selected?.id ? { ...lead, session: item.session } : item,
+      ),
+    );
+  };
+
+  const runSessionAction = async (
+    action: (session: ConversationSession) => Promise<ConversationSession>,
+    errorMessage: string,
+  ) => {
+    if (!selected?.session) return false;
+
+    setIsActionLoading(true);
+    try {
+      patchSession(await action(selected.session));
+      return true;
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : errorMessage);
+      return false;
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  // A released conversation leaves the inbox, so move on to the next one
+  const handleRelease = async () => {
+    const next = visible[selectedIndex + 1] ?? visible[selectedIndex - 1];
+    const released = await runSessionAction(
+      (session) => releaseSession(session, user),
+      "Failed to release conversation",
+    );
+    if (!released) return;
+    setItems((prev) => prev.filter((item) => item.id !== selected?.id));
+    updateParams({ session: next?.session?.id });
+  };
+
+  const handleToggleClaim = async () => {
+    const session = selected?.session;
+    if (!session || !currentMembership || isClaiming) return;
+
+    const isMine = session.claimed_by === currentMembership.id;
+    if (session.claimed_by && !isMine && !isManager) {
+      toast.error(
+        `${memberName(session.claimed_by)} is handling this conversation`,
+      );
+      return;
+    }
+
+    setIsClaiming(true);
+    try {
+      if (isMine) {
+        patchSession(await unclaimSession(session, user));
+        toast.success("Conversation unclaimed");
+      } else if (session.claimed_by) {
+        patchSession(
+          await takeOverSession(session, currentMembership.id, user),
+        );
+        toast.success(`You took over from ${memberName(session.claimed_by)}`);
+      } else {
+        patchSession(await claimSession(session, currentMembership.id, user));
+        toast.success("You're handling this conversation");
+      }
+    } catch (error) {
+      console.error("Error updating claim:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update claim",
+      );
+      loadInbox();
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  // j/k or arrows move between conversations, c claims or unclaims
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey || isEditableTarget(e.target)) {
+      return;
+    }
+    if (e.key === "j" || e.key === "ArrowDown") {
+      e.preventDefault();
+      selectItem(visible[Math.min(selectedIndex + 1, visible.length - 1)]);
+    } else if (e.key === "k" || e.key === "ArrowUp") {
+      e.preventDefault();
+      selectItem(visible[Math.max(selectedIndex - 1, 0)]);
+    } else if (e.key === "c") {
+      e.preventDefault();
+      handleToggleClaim();
+    }
+  };
+  // The listener is registered once and always calls the latest handler
+  const keyHandlerRef = useRef(handleKeyDown);
+  keyHandlerRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-32" />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-[500px] w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Inbox</h2>
+          <p className="text-muted-foreground">
+            Conversations waiting on a human, longest-waiting first
+          </p>
+        </div>
+        <p className="hidden md:flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Keyboard className="h-4 w-4" />
+          <kbd className="rounded border px-1">j</kbd>/
+          <kbd className="rounded border px-1">k</kbd> to move,
+          <kbd className="rounded border px-1">c</kbd> to claim
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <Card className="self-start">
+          <CardContent className="space-y-3 pt-6">
+            <div className="flex items-center gap-1 rounded-lg bg-muted p-1">
+              {FILTERS.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={filter === option.value ? "secondary" : "ghost"}
+                  size="sm"
+                  className="flex-1"
+                  onClick={() =>
+                    updateParams({
+                      filter: option.value === "all" ? undefined : option.value,
+                      session: undefined,
+                    })
+                  }
+                >
+                  {option.label}
+                  <span className="ml-1.5 text-xs text-muted-foreground">
+                    {
+                      items.filter((item) => matchesFilter(item, option.value))
+                        .length
+                    }
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            {visible.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                <InboxIcon className="h-12 w-12 mb-3 opacity-50" />
+                <p className="font-medium">Nothing waiting</p>
+                <p className="text-sm text-center">
+                  {filter === "all"
+                    ? "Escalated conversations will show up here"
+                    : "No conversations match this filter"}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-[calc(100vh-16rem)] overflow-y-auto pr-1">
+                {visible.map((item) => (
+                  <InboxListItem
+                    key={item.session!.id}
+                    item={item}
+                    isSelected={item.session!.id === selectedSessionId}
+                    autoReleaseHours={autoReleaseHours}
+                    now={now}
+                    claimedByName={memberName(item.session!.claimed_by)}
+                    isClaimedByMe={
+                      !!currentMembership &&
+                      item.session!.claimed_by === currentMembership.id
+                    }
+                    onSelect={() => selectItem(item)}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected?.session ? (
+          <LeadDetailPanel
+            lead={selected}
+            autoReleaseHours={autoReleaseHours}
+            customFields={customFields}
+            tags={tags}
+            onEscalate={() =>
+              runSessionAction(
+                (session) => escalateSession(session, user),
+                "Failed to escalate conversation",
+              )
+            }
+            onRelease={handleRelease}
+            onProlong={() =>
+              runSessionAction(
+                (session) => prolongSession(session, user),
+                "Failed to prolong human control",
+              )
+            }
+            onLeadUpdated={handleLeadUpdated}
+            onSessionUpdated={patchSession}
+            isLoading={isActionLoading}
+          />
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+              <InboxIcon className="h-16 w-16 mb-4 opacity-30" />
+              <p className="font-medium">No conversation selected</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ArrowLeft,
+  CheckCircle,
+  GitMerge,
+  Loader2,
+  Phone,
+  RefreshCw,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuthStore } from "@/stores/authStore";
+import { fetchLeadDuplicates } from "@/lib/api";
+import { fetchLeadMerges } from "@/lib/leads";
+import { formatDate, formatDateTime, formatPhone } from "@/lib/utils";
+import { LeadMergeDialog } from "@/components/leads";
+import type { LeadDuplicateGroup, LeadMerge, LeadWithSession } from "@/types";
+
+export function LeadDuplicatesPage() {
+  const { organization } = useAuthStore();
+  const [groups, setGroups] = useState<LeadDuplicateGroup[]>([]);
+  const [merges, setMerges] = useState<LeadMerge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergePair, setMergePair] = useState<
+    [LeadWithSession, LeadWithSession] | null
+  >(null);
+
+  useEffect(() => {
+    if (organization?.id) {
+      fetchData();
+    }
+  }, [organization?.id]);
+
+  const fetchData = async () => {
+    if (!organization?.id) return;
+
+    setIsLoading(true);
+    try {
+      const [duplicateGroups, recentMerges] = await Promise.all([
+        fetchLeadDuplicates(organization.id),
+        fetchLeadMerges(organization.id),
+      ]);
+      setGroups(duplicateGroups);
+      setMerges(recentMerges);
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to find duplicates",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getReasonLabel = (group: LeadDuplicateGroup) =>
+    group.reason === "phone"
+      ? "Same phone number"
+      : `Similar name & company (${Math.round(group.similarity * 100)}%)`;
+
+  const isVirtual = (lead: LeadWithSession) => lead.id.startsWith("virtual-");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="-ml-2 mb-1">
+            <Link to="/leads">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Leads
+            </Link>
+          </Button>
+          <h2 className="text-2xl font-bold tracking-tight">Duplicate Leads</h2>
+          <p className="text-muted-foreground">
+            Leads that look like the same person - by normalized phone or a
+            similar name and company
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchData} disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Rescan
+        </Button>
+      </div>
+
+      {isLoading && groups.length === 0 ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <CheckCircle className="h-12 w-12 mb-3 opacity-50" />
+            <p className="font-medium">No duplicates found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <Card key={group.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center gap-2">
+                  {group.reason === "phone" ? (
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <Badge variant="secondary">{getReasonLabel(group)}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {group.leads.map((lead, index) => {
+                  const first = group.leads[0];
+                  const canMerge =
+                    index > 0 && !(isVirtual(lead) && isVirtual(first));
+                  return (
+                    <div
+                      key={lead.id}
+                      className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {lead.contact_name || "Unknown"}
+                          {isVirtual(lead) && (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              conversation only
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {formatPhone(lead.phone)}
+                          {lead.company_name && ` • ${lead.company_name}`}
+                          {!isVirtual(lead) &&
+                            ` • created ${formatDate(lead.created_at)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Badge variant="outline" className="capitalize">
+                          {lead.qualification_score}
+                        </Badge>
+                        <Badge variant="outline" className="capitalize">
+                          {lead.status}
+                        </Badge>
+                        {index > 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!canMerge}
+                            title={
+                              canMerge
+                                ? undefined
+                                : "Two conversations without a lead can't be merged"
+                            }
+                            onClick={() => setMergePair([first, lead])}
+                          >
+                            <GitMerge className="h-4 w-4 mr-2" />
+                            Merge
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Merge audit log */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Merge History</CardTitle>
+          <CardDescription>Recent merges in your organization</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {merges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No merges yet</p>
+          ) : (
+            <ul className="divide-y">
+              {merges.map((merge) => (
+                <li
+                  key={merge.id}
+                  className="flex items-center justify-between gap-4 py-2 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      <span className="font-medium">
+                        {merge.merged_by_name || "System"}
+                      </span>{" "}
+                      merged{" "}
+                      <span className="font-medium">
+                        {merge.merged_lead_snapshot.contact_name ||
+                          formatPhone(merge.merged_lead_snapshot.phone || "")}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {merge.session_ids.length} conversations and{" "}
+                      {merge.call_ids.length} calls moved
+                    </p>
+                  </div>
+                  <span
+                    className="text-xs text-muted-foreground flex-shrink-0"
+                    title={formatDateTime(merge.created_at)}
+                  >
+                    {formatDistanceToNow(new Date(merge.created_at), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <LeadMergeDialog
+        leads={mergePair}
+        onOpenChange={(open) => !open && setMergePair(null)}
+        onMerged={fetchData}
+      />
+    </div>
+  );
+}
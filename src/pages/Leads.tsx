@@ -1,4 +1,5 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
 import {
   Search,
@@ -9,10 +10,23 @@ import {
   MessageSquare,
   Trash2,
   Loader2,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  List,
+  Kanban,
+  Plus,
+  Upload,
+  Download,
+  GitMerge,
+  SlidersHorizontal,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -33,39 +47,256 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useAuthStore } from "@/stores/authStore";
 import { supabase } from "@/lib/supabase";
+import {
+  fetchLeads,
+  fetchLeadCounts,
+  fetchMembers,
+  bulkUpdateLeads,
+  bulkDeleteLeads,
+  bulkTagLeads,
+} from "@/lib/api";
+import { updateLead } from "@/lib/leads";
+import {
+  escalateSession,
+  prolongSession,
+  releaseSession,
+} from "@/lib/sessions";
+import { fetchTags, resolveTags } from "@/lib/tags";
+import { exportLeads } from "@/lib/leadImportExport";
+import {
+  customFieldsParam,
+  hasViewFilters,
+  resolveViewFilters,
+  viewFiltersFromParams,
+  viewFiltersToParams,
+} from "@/lib/leadViews";
+import type { SpreadsheetFormat } from "@/lib/spreadsheet";
 import { formatPhone } from "@/lib/utils";
-import { LeadDetailPanel } from "@/components/leads";
+import {
+  LeadDetailPanel,
+  NewLeadDialog,
+  LeadImportDialog,
+  TranscriptExportDialog,
+  LeadBoard,
+  LeadBulkActionBar,
+  LeadViewsSidebar,
+  TagBadge,
+  BOARD_SCORES,
+  LEAD_STATUS_COLUMNS,
+  type LeadBoardColumns,
+} from "@/components/leads";
 import type {
+  Lead,
   LeadWithSession,
-  UnifiedLeadFilters,
   ConversationSession,
   ConversationControlMode,
+  LeadSortField,
+  SortDirection,
+  LeadBulkUpdates,
+  LeadBulkDelete,
+  LeadViewFilters,
+  TeamMember,
+  CustomLeadField,
+  Tag,
 } from "@/types";
-import type { QualificationScore, LeadStatus, Lead } from "@/types/salesConfig";
+import type { QualificationScore, LeadStatus } from "@/types/salesConfig";
+
+const PAGE_SIZE = 25;
+const BOARD_COLUMN_LIMIT = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+const BULK_DELETE_UNDO_MS = 5000;
+
+// Thresholds for the last-activity and escalation age filters
+const AGE_OPTIONS = [
+  { hours: 1, label: "1+ hour" },
+  { hours: 2, label: "2+ hours" },
+  { hours: 24, label: "1+ day" },
+  { hours: 72, label: "3+ days" },
+  { hours: 168, label: "7+ days" },
+  { hours: 720, label: "30+ days" },
+];
+
+const SORT_OPTIONS: { value: LeadSortField; label: string }[] = [
+  { value: "last_activity", label: "Last activity" },
+  { value: "created_at", label: "Created" },
+  { value: "contact_name", label: "Name" },
+  { value: "company_name", label: "Company" },
+  { value: "qualification_score", label: "Score" },
+  { value: "status", label: "Status" },
+];
+
+// Orphan sessions (virtual leads) are deleted and tagged by session id
+function toBulkTargets(leads: LeadWithSession[]): LeadBulkDelete {
+  return {
+    lead_ids: leads
+      .filter((l) => !l.id.startsWith("virtual-"))
+      .map((l) => l.id),
+    session_ids: leads
+      .filter((l) => l.id.startsWith("virtual-") && l.session)
+      .map((l) => l.session!.id),
+  };
+}
+
+// Tags are kept on the lead, or on the session for orphan sessions
+function getTagIds(lead: LeadWithSession): string[] {
+  return (
+    (lead.id.startsWith("virtual-") ? lead.session?.tag_ids : lead.tag_ids) ??
+    []
+  );
+}
+
+function parseSort(params: URLSearchParams): {
+  sortBy: LeadSortField;
+  sortDir: SortDirection;
+} {
+  const sortBy = params.get("sort") as LeadSortField | null;
+  return {
+    sortBy: SORT_OPTIONS.some((o) => o.value === sortBy)
+      ? sortBy!
+      : "last_activity",
+    sortDir: params.get("dir") === "asc" ? "asc" : "desc",
+  };
+}
 
 export function LeadsPage() {
-  const { organization } = useAuthStore();
+  const { organization, user, currentMembership, teams } = useAuthStore();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [leads, setLeads] = useState<LeadWithSession[]>([]);
+  const [total, setTotal] = useState(0);
+  const [boardColumns, setBoardColumns] = useState<LeadBoardColumns | null>(
+    null,
+  );
   const [isLoading, setIsLoading] = useState(true);
+  const [hasLoaded, setHasLoaded] = useState(false);
   const [selectedLead, setSelectedLead] = useState<LeadWithSession | null>(
     null,
   );
-  const [searchQuery, setSearchQuery] = useState("");
-  const [filters, setFilters] = useState<UnifiedLeadFilters>({});
+  // Filter state lives in the URL so a filtered view can be shared by link.
+  // "My leads" is stored as assignee=me so the link works for any rep.
+  const viewFilters = viewFiltersFromParams(searchParams);
+  const filters = resolveViewFilters(viewFilters, currentMembership?.id);
+  const assignee = viewFilters.assignee || "all";
+  const { sortBy, sortDir } = parseSort(searchParams);
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const view = searchParams.get("view") === "board" ? "board" : "list";
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const [searchQuery, setSearchQuery] = useState(filters.search || "");
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [autoReleaseHours, setAutoReleaseHours] = useState(24);
+  const [customFields, setCustomFields] = useState<CustomLeadField[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
   const [leadToDelete, setLeadToDelete] = useState<LeadWithSession | null>(
     null,
   );
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isNewLeadOpen, setIsNewLeadOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTranscriptExportOpen, setIsTranscriptExportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [showMoreFilters, setShowMoreFilters] = useState(
+    () =>
+      !!(
+        viewFilters.source ||
+        viewFilters.created_from ||
+        viewFilters.created_to ||
+        viewFilters.inactive_hours ||
+        viewFilters.escalated_hours ||
+        viewFilters.custom_fields
+      ),
+  );
+  // Bumped on realtime changes so the views sidebar recounts
+  const [countsKey, setCountsKey] = useState(0);
+  // Bulk selection keeps the full lead so changes can be undone
+  const [bulkSelection, setBulkSelection] = useState<
+    Record<string, LeadWithSession>
+  >({});
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  // Leads waiting out the undo window are hidden from refetches
+  const pendingDeleteIds = useRef<Set<string>>(new Set());
+  // Only the latest list or board request may update the view
+  const latestRequest = useRef(0);
+  const bulkSelectedLeads = Object.values(bulkSelection);
+
+  // Update URL params; any filter or sort change returns to the first page
+  const updateParams = (
+    changes: Record<string, string | undefined>,
+    resetPage = true,
+  ) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        });
+        if (resetPage) next.delete("page");
+        return next;
+      },
+      { replace: true },
+    );
+  };
+
+  const setCustomFieldFilter = (key: string, value: string | undefined) => {
+    const { [key]: _, ...rest } = filters.custom_fields ?? {};
+    updateParams(customFieldsParam(value ? { ...rest, [key]: value } : rest));
+  };
+
+  // Saved views and segments replace every filter, keeping sort and layout
+  const handleSelectView = (selected: LeadViewFilters) => {
+    setSearchQuery(selected.search || "");
+    updateParams(viewFiltersToParams(selected));
+  };
+
+  // Debounce search input before it hits the URL (and the server)
+  useEffect(() => {
+    if ((filters.search || "") === searchQuery.trim()) return;
+    const timeout = setTimeout(() => {
+      updateParams({ q: searchQuery.trim() || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-  // Fetch leads, sessions, and org config on mount
   useEffect(() => {
     if (organization?.id) {
-      fetchLeadsWithSessions();
       fetchOrgConfig();
+      fetchMembers()
+        .then(setMembers)
+        .catch((error) => {
+          console.error("Error fetching members:", error);
+        });
+      fetchTags(organization.id)
+        .then(setTags)
+        .catch((error) => {
+          console.error("Error fetching tags:", error);
+        });
+    }
+  }, [organization?.id]);
+
+  // Fetch the current page (or board) and refetch on realtime changes
+  useEffect(() => {
+    if (organization?.id) {
+      const fetchCurrentView =
+        view === "board" ? fetchBoard : fetchLeadsWithSessions;
+      fetchCurrentView();
 
       // Set up realtime subscriptions for both leads and sessions
       const leadsChannel = supabase
@@ -79,7 +310,8 @@ export function LeadsPage() {
             filter: `organization_id=eq.${organization.id}`,
           },
           () => {
-            fetchLeadsWithSessions();
+            fetchCurrentView();
+            setCountsKey((k) => k + 1);
           },
         )
         .subscribe();
@@ -95,7 +327,8 @@ export function LeadsPage() {
             filter: `organization_id=eq.${organization.id}`,
           },
           () => {
-            fetchLeadsWithSessions();
+            fetchCurrentView();
+            setCountsKey((k) => k + 1);
           },
         )
         .subscribe();
@@ -105,7 +338,52 @@ export function LeadsPage() {
         supabase.removeChannel(sessionsChannel);
       };
     }
-  }, [organization?.id, filters.status, filters.qualification_score]);
+  }, [
+    organization?.id,
+    filters.search,
+    filters.status,
+    filters.qualification_score,
+    filters.conversation_status,
+    filters.assigned_rep_id,
+    filters.team_id,
+    filters.source,
+    filters.created_from,
+    filters.created_to,
+    filters.inactive_hours,
+    filters.escalated_hours,
+    // A new object on every render; compare by value
+    JSON.stringify(filters.custom_fields),
+    filters.tag_id,
+    sortBy,
+    sortDir,
+    page,
+    view,
+  ]);
+
+  const refreshCurrentView = () => {
+    if (view === "board") {
+      fetchBoard();
+    } else {
+      fetchLeadsWithSessions();
+    }
+  };
+
+  // Keep the conversation attached when a lead is edited (or created from
+  // an orphan session, which gives it a real id)
+  const handleLeadUpdated = (lead: Lead) => {
+    setSelectedLead((prev) => ({ ...lead, session: prev?.session ?? null }));
+    refreshCurrentView();
+  };
+
+  const handleSessionUpdated = (session: ConversationSession) => {
+    setSelectedLead((prev) => (prev ? { ...prev, session } : prev));
+    refreshCurrentView();
+  };
+
+  const handleLeadCreated = (lead: Lead) => {
+    setSelectedLead({ ...lead, session: null });
+    refreshCurrentView();
+  };
 
   const fetchOrgConfig = async () => {
     if (!organization?.id) return;
@@ -113,13 +391,14 @@ export function LeadsPage() {
       const { data } = await supabase
         .schema("agents")
         .from("organization_configs")
-        .select("hitl_auto_release_hours")
+        .select("hitl_auto_release_hours, custom_lead_fields")
         .eq("organization_id", organization.id)
         .eq("agent_type", "sales")
         .single();
       if (data?.hitl_auto_release_hours) {
         setAutoReleaseHours(data.hitl_auto_release_hours);
       }
+      setCustomFields(data?.custom_lead_fields || []);
     } catch (error) {
       console.error("Error fetching org config:", error);
     }
@@ -128,86 +407,25 @@ export function LeadsPage() {
   const fetchLeadsWithSessions = async () => {
     if (!organization?.id) return;
 
+    const requestId = ++latestRequest.current;
     setIsLoading(true);
     try {
-      // Fetch ALL sessions first (to catch orphan sessions without leads)
-      const { data: allSessionsData } = await supabase
-        .schema("agents")
-        .from("conversation_sessions")
-        .select("*")
-        .eq("organization_id", organization.id)
-        .order("updated_at", { ascending: false });
-
-      const sessionsMap = new Map<string, ConversationSession>(
-        (allSessionsData || []).map((s) => [s.phone, s as ConversationSession]),
-      );
-
-      // Fetch leads with filters
-      let leadsQuery = supabase
-        .schema("sales")
-        .from("leads")
-        .select("*")
-        .eq("organization_id", organization.id)
-        .order("created_at", { ascending: false });
-
-      if (filters.status) {
-        leadsQuery = leadsQuery.eq("status", filters.status);
-      }
-      if (filters.qualification_score) {
-        leadsQuery = leadsQuery.eq(
-          "qualification_score",
-          filters.qualification_score,
-        );
-      }
-
-      const { data: leadsData, error: leadsError } = await leadsQuery;
-      if (leadsError) throw leadsError;
-
-      // Track which phones have leads
-      const leadPhones = new Set((leadsData || []).map((l) => l.phone));
-
-      // Join sessions to leads
-      const leadsWithSessions: LeadWithSession[] = (
-        (leadsData || []) as Lead[]
-      ).map((lead) => ({
-        ...lead,
-        session: sessionsMap.get(lead.phone) || null,
-      }));
-
-      // Create virtual leads for orphan sessions (sessions without matching leads)
-      // Only if no status/score filters are active (orphan sessions have no lead data)
-      if (!filters.status && !filters.qualification_score) {
-        const orphanSessions = (allSessionsData || []).filter(
-          (s) => !leadPhones.has(s.phone),
-        );
-
-        const virtualLeads: LeadWithSession[] = orphanSessions.map(
-          (session) => ({
-            // Virtual lead with minimal data from session
-            id: `virtual-${session.id}`,
-            organization_id: session.organization_id,
-            phone: session.phone,
-            contact_name: session.lead?.contact_name || undefined,
-            company_name: session.lead?.company_name || undefined,
-            qualification_score: "new" as const,
-            status: "new" as const,
-            created_at: session.created_at,
-            updated_at: session.updated_at,
-            session: session as ConversationSession,
-          }),
-        );
-
-        leadsWithSessions.push(...virtualLeads);
-      }
-
-      // Sort by most recent activity (session update or lead update)
-      leadsWithSessions.sort((a, b) => {
-        const aTime = new Date(a.session?.updated_at || a.updated_at).getTime();
-        const bTime = new Date(b.session?.updated_at || b.updated_at).getTime();
-        return bTime - aTime;
+      // Search, filtering, sorting and the orphan-session join all happen
+      // server-side; we only ever hold the current page
+      const result = await fetchLeads(organization.id, {
+        ...filters,
+        page,
+        pageSize: PAGE_SIZE,
+        sort_by: sortBy,
+        sort_dir: sortDir,
       });
+      if (requestId !== latestRequest.current) return;
+      const leadsWithSessions = result.data.filter(
+        (l) => !pendingDeleteIds.current.has(l.id),
+      );
 
       setLeads(leadsWithSessions);
+      setTotal(result.total - (result.data.length - leadsWithSessions.length));
 
       // Update selected lead if it changed
       if (selectedLead) {
@@ -219,37 +437,135 @@ export function LeadsPage() {
         }
       }
     } catch (error) {
+      if (requestId !== latestRequest.current) return;
       console.error("Error fetching leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to fetch leads",
+      );
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+        setHasLoaded(true);
+      }
     }
   };
 
-  // Client-side filtering for search and conversation_status
-  const filteredLeads = leads.filter((lead) => {
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      const matchesSearch =
-        lead.phone.includes(query) ||
-        lead.contact_name?.toLowerCase().includes(query) ||
-        lead.company_name?.toLowerCase().includes(query);
-      if (!matchesSearch) return false;
-    }
+  // Board view: one request per status column, sharing the list's filters
+  const fetchBoard = async () => {
+    if (!organization?.id) return;
 
-    // Conversation status filter
-    if (filters.conversation_status) {
-      if (filters.conversation_status === "none") {
-        if (lead.session) return false;
-      } else {
-        if (!lead.session) return false;
-        if (lead.session.control_mode !== filters.conversation_status)
-          return false;
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    try {
+      // Score chips count the whole column, so they come from the server
+      const scores = filters.qualification_score
+        ? BOARD_SCORES.filter((score) => score === filters.qualification_score)
+        : BOARD_SCORES;
+      const scoreSegments = Object.fromEntries(
+        LEAD_STATUS_COLUMNS.flatMap(({ status }) =>
+          scores.map((score) => [
+            `${status}:${score}`,
+            { ...filters, status, qualification_score: score },
+          ]),
+        ),
+      );
+      const [results, scoreCounts] = await Promise.all([
+        Promise.all(
+          LEAD_STATUS_COLUMNS.map(({ status }) =>
+            fetchLeads(organization.id, {
+              ...filters,
+              status,
+              page: 1,
+              pageSize: BOARD_COLUMN_LIMIT,
+              sort_by: sortBy,
+              sort_dir: sortDir,
+            }),
+          ),
+        ),
+        fetchLeadCounts(organization.id, scoreSegments),
+      ]);
+
+      if (requestId !== latestRequest.current) return;
+      const columns = Object.fromEntries(
+        LEAD_STATUS_COLUMNS.map(({ status }, i) => [
+          status,
+          {
+            leads: results[i].data,
+            total: results[i].total,
+            scoreCounts: Object.fromEntries(
+              scores.map((score) => [
+                score,
+                scoreCounts[`${status}:${score}`] ?? 0,
+              ]),
+            ),
+          },
+        ]),
+      ) as LeadBoardColumns;
+      setBoardColumns(columns);
+
+      if (selectedLead) {
+        const updatedSelectedLead = Object.values(columns)
+          .flatMap((c) => c.leads)
+          .find((l) => l.id === selectedLead.id);
+        if (updatedSelectedLead) {
+          setSelectedLead(updatedSelectedLead);
+        }
+      }
+    } catch (error) {
+      if (requestId !== latestRequest.current) return;
+      console.error("Error fetching board:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to fetch leads",
+      );
+    } finally {
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+        setHasLoaded(true);
       }
     }
+  };
+
+  // Drag-and-drop status change: move the card immediately, then persist
+  const handleMoveLead = async (lead: LeadWithSession, status: LeadStatus) => {
+    if (!boardColumns) return;
+
+    const previousColumns = boardColumns;
+    const movedLead = { ...lead, status };
+    const shiftScore = (columnStatus: LeadStatus, by: number) => {
+      const counts = boardColumns[columnStatus].scoreCounts;
+      const score = lead.qualification_score;
+      return { ...counts, [score]: (counts[score] ?? 0) + by };
+    };
+    setBoardColumns({
+      ...boardColumns,
+      [lead.status]: {
+        leads: boardColumns[lead.status].leads.filter((l) => l.id !== lead.id),
+        total: boardColumns[lead.status].total - 1,
+        scoreCounts: shiftScore(lead.status, -1),
+      },
+      [status]: {
+        leads: [movedLead, ...boardColumns[status].leads],
+        total: boardColumns[status].total + 1,
+        scoreCounts: shiftScore(status, 1),
+      },
+    });
+    if (selectedLead?.id === lead.id) {
+      setSelectedLead(movedLead);
+    }
 
-    return true;
-  });
+    try {
+      await updateLead(lead, { status }, user);
+    } catch (error) {
+      console.error("Error updating lead status:", error);
+      setBoardColumns(previousColumns);
+      if (selectedLead?.id === lead.id) {
+        setSelectedLead(lead);
+      }
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update lead status",
+      );
+    }
+  };
 
   // Escalation handlers
   const handleEscalate = async () => {
@@ -257,29 +573,8 @@ export function LeadsPage() {
 
     setIsActionLoading(true);
     try {
-      const now = new Date().toISOString();
-      const { error } = await supabase
-        .schema("agents")
-        .from("conversation_sessions")
-        .update({
-          control_mode: "human",
-          escalated_at: now,
-          reason: "Manual escalation from UI",
-        })
-        .eq("id", selectedLead.session.id);
-
-      if (error) throw error;
-
-      // Update local state
-      setSelectedLead({
-        ...selectedLead,
-        session: {
-          ...selectedLead.session,
-          control_mode: "human",
-          escalated_at: now,
-          reason: "Manual escalation from UI",
-        },
-      });
+      const session = await escalateSession(selectedLead.session, user);
+      setSelectedLead({ ...selectedLead, session });
     } catch (error) {
       console.error("Error escalating session:", error);
     } finally {
@@ -292,28 +587,8 @@ export function LeadsPage() {
 
     setIsActionLoading(true);
     try {
-      const { error } = await supabase
-        .schema("agents")
-        .from("conversation_sessions")
-        .update({
-          control_mode: "agent",
-          escalated_at: null,
-          reason: null,
-        })
-        .eq("id", selectedLead.session.id);
-
-      if (error) throw error;
-
-      // Update local state
-      setSelectedLead({
-        ...selectedLead,
-        session: {
-          ...selectedLead.session,
-          control_mode: "agent",
-          escalated_at: undefined,
-          reason: undefined,
-        },
-      });
+      const session = await releaseSession(selectedLead.session, user);
+      setSelectedLead({ ...selectedLead, session });
     } catch (error) {
       console.error("Error releasing session:", error);
     } finally {
@@ -326,25 +601,8 @@ export function LeadsPage() {
 
     setIsActionLoading(true);
     try {
-      const now = new Date().toISOString();
-      const { error } = await supabase
-        .schema("agents")
-        .from("conversation_sessions")
-        .update({
-          escalated_at: now,
-        })
-        .eq("id", selectedLead.session.id);
-
-      if (error) throw error;
-
-      // Update local state
-      setSelectedLead({
-        ...selectedLead,
-        session: {
-          ...selectedLead.session,
-          escalated_at: now,
-        },
-      });
+      const session = await prolongSession(selectedLead.session, user);
+      setSelectedLead({ ...selectedLead, session });
     } catch (error) {
       console.error("Error prolonging session:", error);
     } finally {
@@ -352,95 +610,24 @@ export function LeadsPage() {
     }
   };
 
-  // Delete lead and all related data
+  // Delete lead and all related data (sessions, agent sessions, messages)
+  // in one backend transaction
   const handleDeleteLead = async () => {
     if (!leadToDelete || !organization?.id) return;
 
     setIsDeleting(true);
     try {
-      const phone = leadToDelete.phone;
-      const isVirtualLead = leadToDelete.id.startsWith("virtual-");
-
-      console.log("Deleting lead:", {
-        id: leadToDelete.id,
-        phone,
-        isVirtualLead,
-        orgId: organization.id,
-      });
-
-      // 1. Delete conversation_sessions by phone
-      const { error: sessionsError, count: sessionsCount } = await supabase
-        .schema("agents")
-        .from("conversation_sessions")
-        .delete({ count: "exact" })
-        .eq("phone", phone)
-        .eq("organization_id", organization.id);
-
-      console.log("Deleted conversation_sessions:", {
-        sessionsCount,
-        sessionsError,
-      });
-
-      if (sessionsError) {
-        console.error("Error deleting conversation sessions:", sessionsError);
-      }
-
-      // 2. Delete agent_sessions by lead_phone
-      const { error: agentSessionsError, count: agentCount } = await supabase
-        .schema("agents")
-        .from("agent_sessions")
-        .delete({ count: "exact" })
-        .eq("lead_phone", phone);
-
-      console.log("Deleted agent_sessions:", {
-        agentCount,
-        agentSessionsError,
-      });
-
-      if (agentSessionsError) {
-        console.error("Error deleting agent sessions:", agentSessionsError);
-      }
-
-      // 3. Delete conversation_messages (if any exist)
-      if (leadToDelete.session?.id) {
-        const { count: msgCount } = await supabase
-          .schema("agents")
-          .from("conversation_messages")
-          .delete({ count: "exact" })
-          .eq("session_id", leadToDelete.session.id);
-
-        console.log("Deleted conversation_messages:", { msgCount });
-      }
-
-      // 4. Delete the lead itself (only if it's a real lead, not virtual)
-      if (!isVirtualLead) {
-        const { error: leadError, count: leadCount } = await supabase
-          .schema("sales")
-          .from("leads")
-          .delete({ count: "exact" })
-          .eq("id", leadToDelete.id);
-
-        console.log("Deleted lead:", { leadCount, leadError });
-
-        if (leadError) throw leadError;
-
-        // Check if delete actually worked
-        if (leadCount === 0) {
-          throw new Error("Lead deletion was blocked - no rows affected");
-        }
-      }
+      await bulkDeleteLeads(organization.id, toBulkTargets([leadToDelete]));
 
       // Clear selection if deleted lead was selected
       if (selectedLead?.id === leadToDelete.id) {
         setSelectedLead(null);
       }
+      setBulkSelection(({ [leadToDelete.id]: _, ...rest }) => rest);
 
       // Immediately remove from local state for instant UI feedback
       const deletedId = leadToDelete.id;
-      const deletedPhone = leadToDelete.phone;
-      setLeads((prevLeads) =>
-        prevLeads.filter((l) => l.id !== deletedId && l.phone !== deletedPhone),
-      );
+      setLeads((prevLeads) => prevLeads.filter((l) => l.id !== deletedId));
 
       toast.success(
         `Lead ${leadToDelete.contact_name || leadToDelete.phone} deleted`,
@@ -459,6 +646,255 @@ export function LeadsPage() {
     }
   };
 
+  // Export every lead matching the current filters and sort
+  const handleExport = async (fileFormat: SpreadsheetFormat) => {
+    if (!organization?.id) return;
+
+    setIsExporting(true);
+    try {
+      const count = await exportLeads(
+        organization.id,
+        { ...filters, sort_by: sortBy, sort_dir: sortDir },
+        fileFormat,
+        customFields,
+      );
+      toast.success(`Exported ${count} leads`);
+    } catch (error) {
+      console.error("Error exporting leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export leads",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Bulk selection handlers
+  const toggleBulkSelect = (lead: LeadWithSession) => {
+    setBulkSelection(({ [lead.id]: selected, ...rest }) =>
+      selected ? rest : { ...rest, [lead.id]: lead },
+    );
+  };
+
+  const allOnPageSelected =
+    leads.length > 0 && leads.every((l) => bulkSelection[l.id]);
+  const someOnPageSelected = leads.some((l) => bulkSelection[l.id]);
+
+  const toggleBulkSelectPage = () => {
+    setBulkSelection((prev) => {
+      const next = { ...prev };
+      leads.forEach((l) => {
+        if (allOnPageSelected) {
+          delete next[l.id];
+        } else {
+          next[l.id] = l;
+        }
+      });
+      return next;
+    });
+  };
+
+  // Undo restores each lead's previous values; leads that shared a value
+  // are reverted together, so this is one request per distinct value
+  const undoBulkUpdate = async (
+    targets: LeadWithSession[],
+    updates: LeadBulkUpdates,
+  ) => {
+    if (!organization?.id) return;
+
+    const fields = Object.keys(updates) as (keyof LeadBulkUpdates)[];
+    const groups = new Map<
+      string,
+      { updates: LeadBulkUpdates; ids: string[] }
+    >();
+    targets.forEach((lead) => {
+      const previous = Object.fromEntries(
+        fields.map((field) => [field, lead[field] ?? null]),
+      ) as LeadBulkUpdates;
+      const key = JSON.stringify(previous);
+      const group = groups.get(key) ?? { updates: previous, ids: [] };
+      group.ids.push(lead.id);
+      groups.set(key, group);
+    });
+
+    const toastId = toast.loading("Reverting changes...");
+    try {
+      await Promise.all(
+        [...groups.values()].map((group) =>
+          bulkUpdateLeads(organization.id, {
+            lead_ids: group.ids,
+            updates: group.updates,
+          }),
+        ),
+      );
+      toast.success("Changes reverted", { id: toastId });
+    } catch (error) {
+      console.error("Error reverting bulk update:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revert changes",
+        { id: toastId },
+      );
+    } finally {
+      refreshCurrentView();
+    }
+  };
+
+  const handleBulkUpdate = async (updates: LeadBulkUpdates) => {
+    if (!organization?.id) return;
+
+    // Orphan sessions have no lead row to update
+    const targets = bulkSelectedLeads.filter(
+      (l) => !l.id.startsWith("virtual-"),
+    );
+    if (targets.length === 0) {
+      toast.error("Selected conversations have no lead record to update");
+      return;
+    }
+
+    setIsBulkWorking(true);
+    const toastId = toast.loading(`Updating ${targets.length} leads...`);
+    try {
+      const result = await bulkUpdateLeads(organization.id, {
+        lead_ids: targets.map((l) => l.id),
+        updates,
+      });
+      setBulkSelection({});
+      toast.success(`Updated ${result.affected} leads`, {
+        id: toastId,
+        action: {
+          label: "Undo",
+          onClick: () => undoBulkUpdate(targets, updates),
+        },
+      });
+      refreshCurrentView();
+    } catch (error) {
+      console.error("Error updating leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update leads",
+        { id: toastId },
+      );
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  // Only leads whose tags actually change are sent, so undo can flip
+  // exactly those back
+  const handleBulkTag = async (tagId: string, add: boolean) => {
+    if (!organization?.id) return;
+
+    const tag = tags.find((t) => t.id === tagId);
+    const targets = bulkSelectedLeads.filter(
+      (l) => getTagIds(l).includes(tagId) !== add,
+    );
+    if (targets.length === 0) {
+      toast.info(
+        add
+          ? `Selected leads are already tagged "${tag?.name}"`
+          : `Selected leads aren't tagged "${tag?.name}"`,
+      );
+      return;
+    }
+
+    const applyTag = (apply: boolean) =>
+      bulkTagLeads(organization.id, {
+        ...toBulkTargets(targets),
+        ...(apply ? { add_tag_ids: [tagId] } : { remove_tag_ids: [tagId] }),
+      });
+
+    setIsBulkWorking(true);
+    const toastId = toast.loading(`Tagging ${targets.length} leads...`);
+    try {
+      const result = await applyTag(add);
+      setBulkSelection({});
+      toast.success(
+        add
+          ? `Tagged ${result.affected} leads "${tag?.name}"`
+          : `Removed "${tag?.name}" from ${result.affected} leads`,
+        {
+          id: toastId,
+          action: {
+            label: "Undo",
+            onClick: () =>
+              applyTag(!add)
+                .then(() => toast.success("Changes reverted"))
+                .catch((error) => {
+                  console.error("Error reverting bulk tag:", error);
+                  toast.error(
+                    error instanceof Error
+                      ? error.message
+                      : "Failed to revert changes",
+                  );
+                })
+                .finally(refreshCurrentView),
+          },
+        },
+      );
+      refreshCurrentView();
+    } catch (error) {
+      console.error("Error tagging leads:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to tag leads",
+        { id: toastId },
+      );
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+
+  // Bulk delete hides the leads right away and only deletes them once the
+  // undo window has passed
+  const handleBulkDelete = () => {
+    if (!organization?.id) return;
+
+    const organizationId = organization.id;
+    const targets = bulkSelectedLeads;
+    const ids = targets.map((l) => l.id);
+    ids.forEach((id) => pendingDeleteIds.current.add(id));
+    const release = () =>
+      ids.forEach((id) => pendingDeleteIds.current.delete(id));
+
+    setLeads((prev) => prev.filter((l) => !ids.includes(l.id)));
+    setTotal((prev) => prev - leads.filter((l) => ids.includes(l.id)).length);
+    if (selectedLead && ids.includes(selectedLead.id)) {
+      setSelectedLead(null);
+    }
+    setBulkSelection({});
+
+    let timeout: ReturnType<typeof setTimeout>;
+    const toastId = toast(`${targets.length} leads will be deleted`, {
+      duration: BULK_DELETE_UNDO_MS,
+      action: {
+        label: "Undo",
+        onClick: () => {
+          clearTimeout(timeout);
+          release();
+          refreshCurrentView();
+        },
+      },
+    });
+
+    timeout = setTimeout(async () => {
+      toast.loading(`Deleting ${targets.length} leads...`, { id: toastId });
+      try {
+        const result = await bulkDeleteLeads(
+          organizationId,
+          toBulkTargets(targets),
+        );
+        toast.success(`Deleted ${result.affected} leads`, { id: toastId });
+      } catch (error) {
+        console.error("Error deleting leads:", error);
+        toast.error(
+          error instanceof Error ? error.message : "Failed to delete leads",
+          { id: toastId },
+        );
+      } finally {
+        release();
+        refreshCurrentView();
+      }
+    }, BULK_DELETE_UNDO_MS);
+  };
+
   // Helper functions
   const getScoreIcon = (score: QualificationScore) => {
     switch (score) {
@@ -525,7 +961,7 @@ export function LeadsPage() {
     }
   };
 
-  if (isLoading) {
+  if (isLoading && !hasLoaded) {
     return (
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -554,230 +990,721 @@ export function LeadsPage() {
             Manage and track your sales leads
           </p>
         </div>
-      </div>
-
-      {/* Filters */}
-      <Card>
-        <CardContent className="pt-6">
-          <div className="flex flex-col gap-4 md:flex-row md:items-center">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                placeholder="Search by name, phone, or company..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
-              />
-            </div>
-            <div className="flex gap-2 flex-wrap">
-              <Select
-                value={filters.qualification_score || "all"}
-                onValueChange={(value) =>
-                  setFilters((f) => ({
-                    ...f,
-                    qualification_score:
-                      value === "all"
-                        ? undefined
-                        : (value as QualificationScore),
-                  }))
-                }
-              >
-                <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Score" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Scores</SelectItem>
-                  <SelectItem value="hot">Hot</SelectItem>
-                  <SelectItem value="warm">Warm</SelectItem>
-                  <SelectItem value="cold">Cold</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select
-                value={filters.status || "all"}
-                onValueChange={(value) =>
-                  setFilters((f) => ({
-                    ...f,
-                    status: value === "all" ? undefined : (value as LeadStatus),
-                  }))
-                }
-              >
-                <SelectTrigger className="w-36">
-                  <SelectValue placeholder="Status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="qualified">Qualified</SelectItem>
-                  <SelectItem value="scheduled">Scheduled</SelectItem>
-                  <SelectItem value="converted">Converted</SelectItem>
-                  <SelectItem value="lost">Lost</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select
-                value={filters.conversation_status || "all"}
-                onValueChange={(value) =>
-                  setFilters((f) => ({
-                    ...f,
-                    conversation_status:
-                      value === "all"
-                        ? undefined
-                        : (value as "none" | ConversationControlMode),
-                  }))
-                }
-              >
-                <SelectTrigger className="w-40">
-                  <SelectValue placeholder="Conversation" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Conversations</SelectItem>
-                  <SelectItem value="none">No Conversation</SelectItem>
-                  <SelectItem value="agent">Agent</SelectItem>
-                  <SelectItem value="human">Escalated</SelectItem>
-                  <SelectItem value="paused">Paused</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 rounded-lg bg-muted p-1">
+            <Button
+              variant={view === "list" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updateParams({ view: undefined }, false)}
+            >
+              <List className="h-4 w-4 mr-2" />
+              List
+            </Button>
+            <Button
+              variant={view === "board" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => updateParams({ view: "board", page: undefined })}
+            >
+              <Kanban className="h-4 w-4 mr-2" />
+              Board
+            </Button>
           </div>
-        </CardContent>
-      </Card>
-
-      {/* Main Content Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Leads List */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-2 mb-4">
-              <Users className="h-5 w-5" />
-              <span className="font-semibold">Leads</span>
-              <Badge variant="secondary">{filteredLeads.length}</Badge>
-            </div>
+          <Button variant="outline" asChild>
+            <Link to="/leads/duplicates">
+              <GitMerge className="h-4 w-4 mr-2" />
+              Duplicates
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={isExporting}>
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+                Excel (XLSX)
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsTranscriptExportOpen(true)}>
+                Conversation transcripts...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setIsNewLeadOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Lead
+          </Button>
+        </div>
+      </div>
 
-            {filteredLeads.length === 0 ? (
-              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-                <Users className="h-12 w-12 mb-3 opacity-50" />
-                <p className="font-medium">No leads</p>
-                <p className="text-sm text-center">
-                  {searchQuery ||
-                  filters.status ||
-                  filters.qualification_score ||
-                  filters.conversation_status
-                    ? "No leads match your filters"
-                    : "Leads will appear here when the agent qualifies them"}
-                </p>
-              </div>
-            ) : (
-              <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
-                {filteredLeads.map((lead) => (
-                  <div
-                    key={lead.id}
-                    className={`p-4 rounded-lg border-2 transition-all cursor-pointer hover:border-blue-300 ${
-                      selectedLead?.id === lead.id
-                        ? "border-blue-500 bg-blue-50"
-                        : "border-gray-200 bg-white"
-                    }`}
-                    onClick={() => setSelectedLead(lead)}
+      <div className="flex gap-6">
+        <LeadViewsSidebar
+          filters={viewFilters}
+          onSelect={handleSelectView}
+          refreshKey={countsKey}
+          className="hidden xl:block w-60 flex-shrink-0 self-start"
+        />
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex flex-col gap-4 md:flex-row md:items-center">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by name, phone, or company..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                  <Select
+                    value={filters.qualification_score || "all"}
+                    onValueChange={(value) =>
+                      updateParams({
+                        score: value === "all" ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue placeholder="Score" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Scores</SelectItem>
+                      <SelectItem value="hot">Hot</SelectItem>
+                      <SelectItem value="warm">Warm</SelectItem>
+                      <SelectItem value="cold">Cold</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {view === "list" && (
+                    <Select
+                      value={filters.status || "all"}
+                      onValueChange={(value) =>
+                        updateParams({
+                          status: value === "all" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Statuses</SelectItem>
+                        <SelectItem value="new">New</SelectItem>
+                        <SelectItem value="qualified">Qualified</SelectItem>
+                        <SelectItem value="scheduled">Scheduled</SelectItem>
+                        <SelectItem value="converted">Converted</SelectItem>
+                        <SelectItem value="lost">Lost</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Select
+                    value={filters.conversation_status || "all"}
+                    onValueChange={(value) =>
+                      updateParams({
+                        conversation: value === "all" ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Conversation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Conversations</SelectItem>
+                      <SelectItem value="none">No Conversation</SelectItem>
+                      <SelectItem value="agent">Agent</SelectItem>
+                      <SelectItem value="human">Escalated</SelectItem>
+                      <SelectItem value="paused">Paused</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select
+                    value={assignee}
+                    onValueChange={(value) =>
+                      updateParams({
+                        assignee: value === "all" ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Assignee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Leads</SelectItem>
+                      {currentMembership && (
+                        <SelectItem value="me">My Leads</SelectItem>
+                      )}
+                      <SelectItem value="none">Unassigned</SelectItem>
+                      {members
+                        .filter((m) => m.id !== currentMembership?.id)
+                        .map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {member.name || member.email}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+
+                  {teams.length > 1 && (
+                    <Select
+                      value={filters.team_id || "all"}
+                      onValueChange={(value) =>
+                        updateParams({
+                          team: value === "all" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Teams</SelectItem>
+                        {teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {(tags.length > 0 || filters.tag_id) && (
+                    <Select
+                      value={filters.tag_id || "all"}
+                      onValueChange={(value) =>
+                        updateParams({
+                          tag: value === "all" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Tag" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Tags</SelectItem>
+                        {tags.map((tag) => (
+                          <SelectItem key={tag.id} value={tag.id}>
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="h-3 w-3 rounded-full"
+                                style={{ backgroundColor: tag.color }}
+                              />
+                              {tag.name}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Button
+                    variant="ghost"
+                    onClick={() => setShowMoreFilters((v) => !v)}
                   >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium truncate">
-                          {lead.contact_name || "Unknown"}
-                        </p>
-                        <p className="text-sm text-muted-foreground truncate">
-                          {formatPhone(lead.phone)}
-                          {lead.company_name && ` • ${lead.company_name}`}
-                        </p>
+                    <SlidersHorizontal className="h-4 w-4 mr-2" />
+                    More
+                  </Button>
+                </div>
+              </div>
+
+              {showMoreFilters && (
+                <div className="mt-4 grid gap-4 border-t pt-4 sm:grid-cols-2 lg:grid-cols-4">
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">
+                      Created between
+                    </Label>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="date"
+                        value={filters.created_from || ""}
+                        max={filters.created_to}
+                        onChange={(e) =>
+                          updateParams({ from: e.target.value || undefined })
+                        }
+                      />
+                      <Input
+                        type="date"
+                        value={filters.created_to || ""}
+                        min={filters.created_from}
+                        onChange={(e) =>
+                          updateParams({ to: e.target.value || undefined })
+                        }
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">
+                      Source
+                    </Label>
+                    <Input
+                      placeholder="Any source"
+                      defaultValue={filters.source || ""}
+                      key={filters.source || ""}
+                      onBlur={(e) =>
+                        updateParams({
+                          source: e.target.value.trim() || undefined,
+                        })
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") e.currentTarget.blur();
+                      }}
+                    />
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">
+                      No activity for
+                    </Label>
+                    <Select
+                      value={String(filters.inactive_hours || "any")}
+                      onValueChange={(value) =>
+                        updateParams({
+                          inactive: value === "any" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any time</SelectItem>
+                        {AGE_OPTIONS.map((option) => (
+                          <SelectItem
+                            key={option.hours}
+                            value={String(option.hours)}
+                          >
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-muted-foreground">
+                      Escalated for
+                    </Label>
+                    <Select
+                      value={String(filters.escalated_hours || "any")}
+                      onValueChange={(value) =>
+                        updateParams({
+                          escalated: value === "any" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any time</SelectItem>
+                        {AGE_OPTIONS.map((option) => (
+                          <SelectItem
+                            key={option.hours}
+                            value={String(option.hours)}
+                          >
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {customFields.map((field) => {
+                    const value = filters.custom_fields?.[field.key];
+                    return (
+                      <div key={field.key} className="space-y-1.5">
+                        <Label className="text-xs text-muted-foreground">
+                          {field.label}
+                        </Label>
+                        {field.type === "select" || field.type === "boolean" ? (
+                          <Select
+                            value={value || "any"}
+                            onValueChange={(next) =>
+                              setCustomFieldFilter(
+                                field.key,
+                                next === "any" ? undefined : next,
+                              )
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="any">Any</SelectItem>
+                              {field.type === "boolean" ? (
+                                <>
+                                  <SelectItem value="true">Yes</SelectItem>
+                                  <SelectItem value="false">No</SelectItem>
+                                </>
+                              ) : (
+                                (field.options || []).map((option) => (
+                                  <SelectItem key={option} value={option}>
+                                    {option}
+                                  </SelectItem>
+                                ))
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Input
+                            type={field.type === "text" ? "text" : field.type}
+                            placeholder={
+                              field.type === "text" ? "Contains..." : "Any"
+                            }
+                            defaultValue={value || ""}
+                            key={value || ""}
+                            onBlur={(e) =>
+                              setCustomFieldFilter(
+                                field.key,
+                                e.target.value.trim() || undefined,
+                              )
+                            }
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") e.currentTarget.blur();
+                            }}
+                          />
+                        )}
                       </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {view === "board" ? (
+            <>
+              <LeadBoard
+                columns={boardColumns}
+                selectedLeadId={selectedLead?.id}
+                onSelectLead={setSelectedLead}
+                onMoveLead={handleMoveLead}
+              />
+
+              {/* Detail Sheet */}
+              <Sheet
+                open={!!selectedLead}
+                onOpenChange={(open) => !open && setSelectedLead(null)}
+              >
+                <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle>Lead Details</SheetTitle>
+                  </SheetHeader>
+                  {selectedLead && (
+                    <div className="mt-4">
+                      <LeadDetailPanel
+                        lead={selectedLead}
+                        autoReleaseHours={autoReleaseHours}
+                        customFields={customFields}
+                        tags={tags}
+                        onEscalate={handleEscalate}
+                        onRelease={handleRelease}
+                        onProlong={handleProlong}
+                        onLeadUpdated={handleLeadUpdated}
+                        onSessionUpdated={handleSessionUpdated}
+                        isLoading={isActionLoading}
+                      />
+                    </div>
+                  )}
+                </SheetContent>
+              </Sheet>
+            </>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Leads List */}
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between gap-2 mb-4">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={
+                          allOnPageSelected
+                            ? true
+                            : someOnPageSelected
+                              ? "indeterminate"
+                              : false
+                        }
+                        onCheckedChange={toggleBulkSelectPage}
+                        disabled={leads.length === 0}
+                        aria-label="Select all leads on this page"
+                      />
+                      <Users className="h-5 w-5" />
+                      <span className="font-semibold">Leads</span>
+                      <Badge variant="secondary">{total}</Badge>
+                      {isLoading && (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={sortBy}
+                        onValueChange={(value) => updateParams({ sort: value })}
+                      >
+                        <SelectTrigger className="h-8 w-36">
+                          <SelectValue placeholder="Sort by" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SORT_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <Button
                         variant="ghost"
                         size="icon"
-                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setLeadToDelete(lead);
-                        }}
-                        title="Delete lead"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          updateParams({
+                            dir: sortDir === "asc" ? "desc" : "asc",
+                          })
+                        }
+                        title={sortDir === "asc" ? "Ascending" : "Descending"}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        {sortDir === "asc" ? (
+                          <ArrowUp className="h-4 w-4" />
+                        ) : (
+                          <ArrowDown className="h-4 w-4" />
+                        )}
                       </Button>
                     </div>
+                  </div>
 
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <Badge
-                        variant={getScoreBadgeVariant(lead.qualification_score)}
-                        className="gap-1"
-                      >
-                        {getScoreIcon(lead.qualification_score)}
-                        {lead.qualification_score}
-                      </Badge>
+                  {bulkSelectedLeads.length > 0 && (
+                    <LeadBulkActionBar
+                      count={bulkSelectedLeads.length}
+                      isWorking={isBulkWorking}
+                      tags={tags}
+                      onUpdate={handleBulkUpdate}
+                      onTag={handleBulkTag}
+                      onDelete={handleBulkDelete}
+                      onClear={() => setBulkSelection({})}
+                    />
+                  )}
+
+                  {leads.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                      <Users className="h-12 w-12 mb-3 opacity-50" />
+                      <p className="font-medium">No leads</p>
+                      <p className="text-sm text-center">
+                        {hasViewFilters(viewFilters)
+                          ? "No leads match your filters"
+                          : "Leads will appear here when the agent qualifies them"}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2">
+                      {leads.map((lead) => (
+                        <div
+                          key={lead.id}
+                          className={`p-4 rounded-lg border-2 transition-all cursor-pointer hover:border-blue-300 ${
+                            selectedLead?.id === lead.id
+                              ? "border-blue-500 bg-blue-50"
+                              : "border-gray-200 bg-white"
+                          }`}
+                          onClick={() => setSelectedLead(lead)}
+                        >
+                          <div className="flex items-start justify-between mb-2">
+                            <Checkbox
+                              checked={!!bulkSelection[lead.id]}
+                              onCheckedChange={() => toggleBulkSelect(lead)}
+                              onClick={(e) => e.stopPropagation()}
+                              className="mt-1 mr-3"
+                              aria-label="Select lead"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium truncate">
+                                {lead.contact_name || "Unknown"}
+                              </p>
+                              <p className="text-sm text-muted-foreground truncate">
+                                {formatPhone(lead.phone)}
+                                {lead.company_name && ` • ${lead.company_name}`}
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setLeadToDelete(lead);
+                              }}
+                              title="Delete lead"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <Badge
+                              variant={getScoreBadgeVariant(
+                                lead.qualification_score,
+                              )}
+                              className="gap-1"
+                            >
+                              {getScoreIcon(lead.qualification_score)}
+                              {lead.qualification_score}
+                            </Badge>
 
-                      <span
-                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${getStatusColor(lead.status)}`}
-                      >
-                        {lead.status}
-                      </span>
-
-                      {lead.session ? (
-                        <div className="flex items-center gap-1.5">
-                          <Badge
-                            variant={getControlModeVariant(
-                              lead.session.control_mode,
+                            <span
+                              className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${getStatusColor(lead.status)}`}
+                            >
+                              {lead.status}
+                            </span>
+
+                            {lead.session ? (
+                              <div className="flex items-center gap-1.5">
+                                <Badge
+                                  variant={getControlModeVariant(
+                                    lead.session.control_mode,
+                                  )}
+                                >
+                                  {getControlModeLabel(
+                                    lead.session.control_mode,
+                                  )}
+                                </Badge>
+                                {lead.session.unread_count > 0 && (
+                                  <Badge
+                                    variant="destructive"
+                                    className="text-xs"
+                                  >
+                                    {lead.session.unread_count}
+                                  </Badge>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                <MessageSquare className="h-3 w-3" />
+                                No conv
+                              </span>
                             )}
-                          >
-                            {getControlModeLabel(lead.session.control_mode)}
-                          </Badge>
-                          {lead.session.unread_count > 0 && (
-                            <Badge variant="destructive" className="text-xs">
-                              {lead.session.unread_count}
-                            </Badge>
-                          )}
+
+                            {resolveTags(tags, [
+                              ...(lead.tag_ids ?? []),
+                              ...(lead.session?.tag_ids ?? []),
+                            ]).map((tag) => (
+                              <TagBadge key={tag.id} tag={tag} />
+                            ))}
+                          </div>
+
+                          <p className="text-xs text-muted-foreground mt-2">
+                            Updated{" "}
+                            {formatDistanceToNow(
+                              new Date(
+                                lead.session?.updated_at || lead.updated_at,
+                              ),
+                              { addSuffix: true },
+                            )}
+                          </p>
                         </div>
-                      ) : (
-                        <span className="text-xs text-muted-foreground flex items-center gap-1">
-                          <MessageSquare className="h-3 w-3" />
-                          No conv
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Pagination */}
+                  {total > PAGE_SIZE && (
+                    <div className="flex items-center justify-between border-t pt-4 mt-4">
+                      <p className="text-sm text-muted-foreground">
+                        {(page - 1) * PAGE_SIZE + 1}–
+                        {Math.min(page * PAGE_SIZE, total)} of {total}
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            updateParams({ page: String(page - 1) }, false)
+                          }
+                          disabled={page <= 1 || isLoading}
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <span className="text-sm">
+                          Page {page} of {totalPages}
                         </span>
-                      )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            updateParams({ page: String(page + 1) }, false)
+                          }
+                          disabled={page >= totalPages || isLoading}
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-
-                    <p className="text-xs text-muted-foreground mt-2">
-                      Updated{" "}
-                      {formatDistanceToNow(
-                        new Date(lead.session?.updated_at || lead.updated_at),
-                        { addSuffix: true },
-                      )}
-                    </p>
-                  </div>
-                ))}
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Detail Panel */}
+              <div>
+                {selectedLead ? (
+                  <LeadDetailPanel
+                    lead={selectedLead}
+                    autoReleaseHours={autoReleaseHours}
+                    customFields={customFields}
+                    tags={tags}
+                    onEscalate={handleEscalate}
+                    onRelease={handleRelease}
+                    onProlong={handleProlong}
+                    onLeadUpdated={handleLeadUpdated}
+                    onSessionUpdated={handleSessionUpdated}
+                    isLoading={isActionLoading}
+                  />
+                ) : (
+                  <Card>
+                    <CardContent className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+                      <Users className="h-16 w-16 mb-4 opacity-30" />
+                      <p className="font-medium">No lead selected</p>
+                      <p className="text-sm">Select a lead to view details</p>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Detail Panel */}
-        <div>
-          {selectedLead ? (
-            <LeadDetailPanel
-              lead={selectedLead}
-              autoReleaseHours={autoReleaseHours}
-              onEscalate={handleEscalate}
-              onRelease={handleRelease}
-              onProlong={handleProlong}
-              isLoading={isActionLoading}
-            />
-          ) : (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-20 text-muted-foreground">
-                <Users className="h-16 w-16 mb-4 opacity-30" />
-                <p className="font-medium">No lead selected</p>
-                <p className="text-sm">Select a lead to view details</p>
-              </CardContent>
-            </Card>
+            </div>
           )}
         </div>
       </div>
 
+      <NewLeadDialog
+        open={isNewLeadOpen}
+        onOpenChange={setIsNewLeadOpen}
+        onCreated={handleLeadCreated}
+        onOpenExisting={(lead) => setSelectedLead({ ...lead, session: null })}
+      />
+
+      <LeadImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={refreshCurrentView}
+      />
+
+      <TranscriptExportDialog
+        open={isTranscriptExportOpen}
+        onOpenChange={setIsTranscriptExportOpen}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog
         open={!!leadToDelete}
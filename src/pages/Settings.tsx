@@ -7,6 +7,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { SnippetSettings, TagSettings } from "@/components/settings";
 import { useAuthStore } from "@/stores/authStore";
 import { Plug, ArrowRight } from "lucide-react";
 
@@ -81,6 +82,10 @@ export function SettingsPage() {
         </CardHeader>
       </Card>
 
+      <TagSettings />
+
+      <SnippetSettings />
+
       <Card>
         <CardHeader>
           <CardTitle>Coming Soon</CardTitle>
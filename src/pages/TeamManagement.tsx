@@ -75,7 +75,7 @@ import {
   updateMember,
   removeMember,
 } from "@/lib/api";
-import { formatDate, getInitials } from "@/lib/utils";
+import { formatDate, getInitials, SWATCH_COLORS } from "@/lib/utils";
 import type {
   Team,
   TeamMember,
@@ -92,19 +92,6 @@ const BACKEND_URL =
   import.meta.env.VITE_BACKEND_URL ||
   "https://healthcare-clinic-backend.fly.dev";
 
-const TEAM_COLORS = [
-  "#6366f1", // Indigo
-  "#8b5cf6", // Purple
-  "#ec4899", // Pink
-  "#ef4444", // Red
-  "#f97316", // Orange
-  "#eab308", // Yellow
-  "#22c55e", // Green
-  "#14b8a6", // Teal
-  "#06b6d4", // Cyan
-  "#3b82f6", // Blue
-];
-
 interface Organization {
   id: string;
   name: string;
@@ -1129,7 +1116,7 @@ export function TeamManagementPage() {
             <div className="space-y-2">
               <Label>Team Color</Label>
               <div className="flex flex-wrap gap-2">
-                {TEAM_COLORS.map((color) => (
+                {SWATCH_COLORS.map((color) => (
                   <button
                     key={color}
                     type="button"
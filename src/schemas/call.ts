@@ -0,0 +1,37 @@
+/**
+ * Zod schemas for discovery call validation.
+ *
+ * Used by the post-call form before writing to sales.discovery_calls.
+ */
+
+import { z } from "zod";
+
+const optionalText = (max: number) => z.string().max(max).optional();
+
+// =============================================================================
+// Call Outcome
+// =============================================================================
+
+// What the rep does to the lead once the call is logged
+export const callLeadActionSchema = z.enum(["keep", "converted", "lost"]);
+
+export const callOutcomeSchema = z
+  .object({
+    status: z.enum(["completed", "no_show"]),
+    // One of the org's configured outcomes
+    outcome: z.string().optional(),
+    notes: optionalText(5000),
+    next_step: optionalText(500),
+    follow_up_at: z.string().optional(), // yyyy-MM-dd
+    lead_action: callLeadActionSchema,
+  })
+  .refine((values) => values.status !== "completed" || !!values.outcome, {
+    message: "Pick an outcome",
+    path: ["outcome"],
+  });
+
+// =============================================================================
+// Type Exports
+// =============================================================================
+
+export type CallOutcomeInput = z.infer<typeof callOutcomeSchema>;
@@ -0,0 +1,107 @@
+/**
+ * Zod schemas for lead validation.
+ *
+ * Used by the lead edit form, the "New lead" dialog and the spreadsheet
+ * import before writing to sales.leads, and by the saved view dialog.
+ */
+
+import { z } from "zod";
+import { normalizePhone } from "@/lib/utils";
+
+// =============================================================================
+// Shared Fields
+// =============================================================================
+
+export const qualificationScoreSchema = z.enum(["new", "hot", "warm", "cold"]);
+
+export const leadStatusSchema = z.enum([
+  "new",
+  "qualified",
+  "scheduled",
+  "converted",
+  "lost",
+]);
+
+// Phone numbers are stored as digits only (same as WhatsApp session phones)
+export const leadPhoneSchema = z
+  .string()
+  .min(1, "Phone is required")
+  .transform(normalizePhone)
+  .refine((phone) => phone.length >= 10 && phone.length <= 15, {
+    message: "Enter a valid phone number with country code",
+  });
+
+const optionalText = (max: number) => z.string().max(max).optional();
+
+// =============================================================================
+// Lead Update
+// =============================================================================
+
+export const leadUpdateSchema = z.object({
+  contact_name: optionalText(255),
+  company_name: optionalText(255),
+  use_case: optionalText(2000),
+  current_stack: optionalText(2000),
+  expected_volume: optionalText(255),
+  timeline: optionalText(255),
+  qualification_score: qualificationScoreSchema,
+  status: leadStatusSchema,
+  notes: optionalText(5000),
+  // Org-defined fields; types are checked against the field definitions
+  // by the inputs that produce them
+  custom_fields: z
+    .record(
+      z.string(),
+      z.union([z.string(), z.number(), z.boolean(), z.null()]),
+    )
+    .optional(),
+});
+
+// =============================================================================
+// Lead Create
+// =============================================================================
+
+export const leadCreateSchema = leadUpdateSchema.extend({
+  phone: leadPhoneSchema,
+});
+
+// =============================================================================
+// Lead Import
+// =============================================================================
+
+// Spreadsheet values are free text: blank cells mean "not provided" and
+// score/status are matched case-insensitively
+const importEnum = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim()
+        ? value.trim().toLowerCase()
+        : undefined,
+    schema.optional(),
+  );
+
+export const leadImportSchema = leadCreateSchema
+  .omit({ custom_fields: true })
+  .extend({
+    qualification_score: importEnum(qualificationScoreSchema),
+    status: importEnum(leadStatusSchema),
+  });
+
+// =============================================================================
+// Saved Lead View
+// =============================================================================
+
+export const leadViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  shared: z.boolean(),
+});
+
+// =============================================================================
+// Type Exports
+// =============================================================================
+
+export type LeadUpdate = z.infer<typeof leadUpdateSchema>;
+export type LeadCreateInput = z.input<typeof leadCreateSchema>;
+export type LeadCreate = z.infer<typeof leadCreateSchema>;
+export type LeadImport = z.infer<typeof leadImportSchema>;
+export type LeadViewInput = z.infer<typeof leadViewSchema>;
@@ -0,0 +1,21 @@
+/**
+ * Zod schemas for lead note validation.
+ *
+ * Used by the lead notes composer before writing to sales.lead_notes.
+ */
+
+import { z } from "zod";
+
+// =============================================================================
+// Lead Note
+// =============================================================================
+
+export const leadNoteSchema = z.object({
+  body: z.string().trim().min(1, "Write something first").max(5000),
+});
+
+// =============================================================================
+// Type Exports
+// =============================================================================
+
+export type LeadNoteInput = z.infer<typeof leadNoteSchema>;
@@ -105,6 +105,58 @@ export const agentBehaviorSchema = z.object({
   bot_disclosure_message_en: z.string().optional(),
 });
 
+export const leadAssignmentRulesSchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    strategy: z
+      .enum(["round_robin", "timezone_region", "team"])
+      .default("round_robin"),
+    trigger_scores: z
+      .array(z.enum(["new", "hot", "warm", "cold"]))
+      .default(["hot"]),
+    team_id: z.string().optional(),
+    balance_workload: z.boolean().default(true),
+    max_open_leads_per_rep: z.number().int().min(1).optional(),
+  })
+  .refine((rules) => rules.strategy !== "team" || !!rules.team_id, {
+    message: "Select a team for team-based assignment",
+    path: ["team_id"],
+  });
+
+export const noShowPolicySchema = z.object({
+  enabled: z.boolean().default(false),
+  grace_minutes: z.number().int().min(5).max(240).default(15),
+  send_rebook_message: z.boolean().default(true),
+  rebook_messages: z.record(z.string(), z.string()).default({}),
+  return_to_agent: z.boolean().default(true),
+});
+
+export const customLeadFieldSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9_]{0,39}$/,
+        "Use lowercase letters, digits and underscores, starting with a letter",
+      ),
+    label: z.string().min(1, "Label is required").max(60),
+    type: z.enum(["text", "number", "select", "date", "boolean"]),
+    options: z.array(z.string().min(1)).optional(),
+    agent_collect: z.boolean().default(false),
+    agent_instructions: z.string().max(500).optional(),
+  })
+  .refine((field) => field.type !== "select" || !!field.options?.length, {
+    message: "Add at least one option",
+    path: ["options"],
+  });
+
+export const customLeadFieldsSchema = z
+  .array(customLeadFieldSchema)
+  .refine(
+    (fields) => new Set(fields.map((f) => f.key)).size === fields.length,
+    { message: "Field keys must be unique" },
+  );
+
 // =============================================================================
 // Integrations
 // =============================================================================
@@ -161,10 +213,13 @@ export const organizationConfigSchema = z.object({
   // Language settings
   primary_language: z.enum(["en", "ru", "es", "de"]).default("en"),
   supported_languages: z.array(z.string()).default(["en"]),
+  timezone: z.string().optional(),
 
   // Call settings
   call_duration_minutes: z.number().min(15).max(120).default(30),
   call_type_name: z.string().min(1).default("discovery-call"),
+  call_outcomes: z.array(z.string().min(1)).default([]),
+  no_show_policy: noShowPolicySchema.optional(),
 
   // Product knowledge (required for activation)
   product_info: productInfoSchema,
@@ -179,6 +234,10 @@ export const organizationConfigSchema = z.object({
   escalation_triggers: escalationTriggersSchema.optional(),
   agent_behavior: agentBehaviorSchema.optional(),
 
+  // Lead routing
+  lead_assignment: leadAssignmentRulesSchema.optional(),
+  custom_lead_fields: customLeadFieldsSchema.default([]),
+
   // Prompt customization
   system_prompt_template: z.string().optional(),
   english_addon_template: z.string().optional(),
@@ -228,8 +287,11 @@ export const organizationConfigUpdateSchema = z
     agent_name: z.string().min(1).max(100).optional(),
     primary_language: z.enum(["en", "ru", "es", "de"]).optional(),
     supported_languages: z.array(z.string()).optional(),
+    timezone: z.string().optional(),
     call_duration_minutes: z.number().min(15).max(120).optional(),
     call_type_name: z.string().min(1).optional(),
+    call_outcomes: z.array(z.string().min(1)).optional(),
+    no_show_policy: z.record(z.string(), z.unknown()).optional(),
     product_info: z.record(z.string(), z.unknown()).optional(),
     qualification_questions: z
       .array(z.record(z.string(), z.unknown()))
@@ -239,6 +301,8 @@ export const organizationConfigUpdateSchema = z
     cta_settings: z.record(z.string(), z.unknown()).optional(),
     escalation_triggers: z.record(z.string(), z.unknown()).optional(),
     agent_behavior: z.record(z.string(), z.unknown()).optional(),
+    lead_assignment: z.record(z.string(), z.unknown()).optional(),
+    custom_lead_fields: z.array(z.record(z.string(), z.unknown())).optional(),
     system_prompt_template: z.string().optional(),
     english_addon_template: z.string().optional(),
     greeting_messages: z.record(z.string(), z.string()).optional(),
@@ -347,6 +411,8 @@ export type BANTQualification = z.infer<typeof bantQualificationSchema>;
 export type CTASettings = z.infer<typeof ctaSettingsSchema>;
 export type EscalationTriggers = z.infer<typeof escalationTriggersSchema>;
 export type AgentBehavior = z.infer<typeof agentBehaviorSchema>;
+export type LeadAssignmentRules = z.infer<typeof leadAssignmentRulesSchema>;
+export type CustomLeadField = z.infer<typeof customLeadFieldSchema>;
 export type HubSpotIntegration = z.infer<typeof hubspotIntegrationSchema>;
 export type SalesRepAvailability = z.infer<typeof salesRepAvailabilitySchema>;
 export type OrganizationConfig = z.infer<typeof organizationConfigSchema>;
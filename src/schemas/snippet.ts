@@ -0,0 +1,30 @@
+/**
+ * Zod schemas for reply snippet validation.
+ *
+ * Used by the snippet dialog before writing to sales.snippets.
+ */
+
+import { z } from "zod";
+
+// =============================================================================
+// Snippet
+// =============================================================================
+
+export const snippetSchema = z.object({
+  shortcut: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, "Shortcut is required")
+    .max(30)
+    .regex(/^[a-z0-9_-]+$/, "Use letters, numbers, - and _ only"),
+  title: z.string().trim().min(1, "Title is required").max(60),
+  language: z.string().min(1, "Pick a language"),
+  body: z.string().trim().min(1, "Write the reply").max(2000),
+});
+
+// =============================================================================
+// Type Exports
+// =============================================================================
+
+export type SnippetInput = z.infer<typeof snippetSchema>;
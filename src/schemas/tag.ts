@@ -0,0 +1,24 @@
+/**
+ * Zod schemas for tag validation.
+ *
+ * Used by the tag dialog before writing to sales.tags.
+ */
+
+import { z } from "zod";
+
+// =============================================================================
+// Tag
+// =============================================================================
+
+export const tagSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(40),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Pick a colour"),
+  // Matched case-insensitively against incoming lead messages
+  keywords: z.array(z.string().trim().min(1)).max(50),
+});
+
+// =============================================================================
+// Type Exports
+// =============================================================================
+
+export type TagInput = z.infer<typeof tagSchema>;
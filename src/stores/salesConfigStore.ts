@@ -1,5 +1,9 @@
 import { create } from "zustand";
 import { supabase } from "@/lib/supabase";
+import {
+  DEFAULT_CALL_OUTCOMES,
+  DEFAULT_NO_SHOW_POLICY,
+} from "@/types/salesConfig";
 import type {
   SalesOrganizationConfig,
   SalesConfigFormData,
@@ -134,6 +138,7 @@ export function getDefaultConfig(
     supported_languages: ["ru", "en"],
     call_duration_minutes: 30,
     call_type_name: "discovery-call",
+    call_outcomes: DEFAULT_CALL_OUTCOMES,
     product_info: {
       general: { title: "About Us", title_en: "About Us", content: "" },
       features: { title: "Features", title_en: "Features", content: "" },
@@ -232,6 +237,14 @@ export function getDefaultConfig(
       bot_disclosure_message_en:
         "Hi! I'm a sales assistant bot. I can answer questions about the product and help schedule a call with a manager.",
     },
+    lead_assignment: {
+      enabled: false,
+      strategy: "round_robin",
+      trigger_scores: ["hot"],
+      balance_workload: true,
+    },
+    no_show_policy: DEFAULT_NO_SHOW_POLICY,
+    custom_lead_fields: [],
 
     // Greeting messages
     greeting_messages: { ru: "", en: "" },
@@ -55,13 +55,12 @@ export interface PaginatedResponse<T> {
   pageSize: number;
 }
 
-// Dashboard metrics
+// Dashboard metrics for one period: leads created and calls scheduled in it
 export interface DashboardMetrics {
   newLeadsCount: number;
   qualifiedLeadsCount: number;
-  scheduledCallsCount: number;
+  callsCount: number;
   conversionRate: number;
-  todayCallsCount: number;
 }
 
 // Lead filters
@@ -80,6 +79,19 @@ export interface CallFilters {
   to_date?: string;
 }
 
+// Per-rep no-show count out of the calls that were due to take place
+// (completed or no_show)
+export interface RepNoShowStats {
+  rep_id: string;
+  due_calls: number;
+  no_shows: number;
+}
+
+// Discovery call with the lead it was booked for
+export type CallWithLead = import("./salesConfig").DiscoveryCall & {
+  lead?: import("./salesConfig").Lead | null;
+};
+
 // Invitation types
 export type InvitationStatus = "pending" | "accepted" | "expired" | "cancelled";
 export type InvitationRole = "admin" | "manager" | "rep";
@@ -121,6 +133,14 @@ export interface ConversationSession {
   source?: string;
   unread_count: number;
   escalated_at?: string; // Timestamp when escalated to human - for timer calculation
+  claimed_by?: string | null; // TeamMember handling the escalation
+  claimed_at?: string | null;
+  // Control mode the agent service switches to at scheduled_at. A scheduled
+  // release takes the place of the hitl_auto_release_hours window.
+  scheduled_mode?: ConversationControlMode | null;
+  scheduled_at?: string | null;
+  scheduled_by_name?: string | null;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
   // Joined from leads table
@@ -133,6 +153,29 @@ export interface ConversationSession {
   };
 }
 
+// Teammate with a conversation open, shared over realtime presence
+export interface ConversationViewer {
+  member_id: string;
+  name: string;
+  typing: boolean;
+}
+
+// Outbound message delivery state (staff replies)
+export type MessageDeliveryStatus = "sending" | "sent" | "delivered" | "failed";
+
+// Tool invocation recorded alongside an agent message
+export interface MessageToolCall {
+  name: string;
+  input?: Record<string, unknown>;
+}
+
+// Known keys of ConversationMessage.metadata
+export interface ConversationMessageMetadata {
+  tool_calls?: MessageToolCall[];
+  client_message_id?: string; // Echoed back for staff replies
+  [key: string]: unknown;
+}
+
 // Conversation message
 export interface ConversationMessage {
   id: string;
@@ -140,29 +183,282 @@ export interface ConversationMessage {
   content: string;
   from_phone?: string;
   sender_type: MessageSenderType;
-  metadata?: Record<string, unknown>;
+  sender_id?: string; // TeamMember id for staff messages
+  sender_name?: string;
+  metadata?: ConversationMessageMetadata;
+  delivery_status?: MessageDeliveryStatus;
   created_at: string;
 }
 
+// Outbound staff message payload
+export interface StaffMessageCreate {
+  content: string;
+  client_message_id: string; // Lets the backend dedupe retries
+}
+
 // Conversation filters
 export interface ConversationFilters {
   control_mode?: ConversationControlMode;
   search?: string;
 }
 
+// Full-text search across the org's conversation messages
+export interface MessageSearchFilters {
+  query: string;
+  sender_type?: MessageSenderType;
+  control_mode?: ConversationControlMode;
+  date_from?: string; // yyyy-MM-dd, inclusive
+  date_to?: string; // yyyy-MM-dd, inclusive
+}
+
+export interface MessageSearchHit {
+  message: ConversationMessage;
+  lead: LeadWithSession; // Virtual for orphan sessions
+}
+
+// Single field change in a lead's edit history
+export interface LeadFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Lead edit history entry (one per save)
+export interface LeadChange {
+  id: string;
+  lead_id: string;
+  organization_id: string;
+  changed_by?: string; // Auth user id
+  changed_by_name?: string;
+  changes: Record<string, LeadFieldChange>;
+  created_at: string;
+}
+
+// Team member @mentioned in a lead note; the name is kept as written so
+// the mention still renders if the member is renamed or removed
+export interface LeadNoteMention {
+  member_id: string;
+  name: string;
+}
+
+// Internal note on a lead (sales.lead_notes). Replies point at a top-level
+// note through parent_id; the body is markdown.
+export interface LeadNote {
+  id: string;
+  lead_id: string;
+  organization_id: string;
+  parent_id?: string | null;
+  author_id: string; // Auth user id
+  author_name?: string;
+  body: string;
+  mentions: LeadNoteMention[];
+  created_at: string;
+  updated_at: string;
+}
+
+// New note payload; the backend fills in the author and notifies the
+// mentioned members
+export interface LeadNoteCreate {
+  body: string;
+  parent_id?: string | null;
+  mentions: LeadNoteMention[];
+}
+
+// Control-mode transitions and claims on a conversation session. Manual
+// ones are written by the UI; the agent service records automatic
+// escalations and auto-releases the same way.
+export type SessionEventType =
+  | "escalated"
+  | "released"
+  | "prolonged"
+  | "paused"
+  | "scheduled"
+  | "schedule_cancelled"
+  | "claimed"
+  | "unclaimed";
+
+export interface SessionEvent {
+  id: string;
+  session_id: string;
+  organization_id: string;
+  event_type: SessionEventType;
+  reason?: string;
+  actor_id?: string; // Auth user id, empty for agent/system events
+  actor_name?: string;
+  created_at: string;
+}
+
+// Kinds of entries on a lead's activity timeline
+export type LeadActivityKind =
+  | "created"
+  | "score"
+  | "status"
+  | "assignment"
+  | "note"
+  | "edit"
+  | "merge"
+  | SessionEventType
+  | "call_booked"
+  | "call_completed"
+  | "call_cancelled"
+  | "call_no_show";
+
+// One entry on a lead's activity timeline, derived from lead changes,
+// session events and discovery calls
+export interface LeadActivity {
+  id: string;
+  kind: LeadActivityKind;
+  actor_name?: string; // Empty for agent/system activity
+  created_at: string;
+  changes?: Record<string, LeadFieldChange>;
+  reason?: string;
+  call?: import("./salesConfig").DiscoveryCall;
+}
+
 // Lead with optional session for unified view
-export interface LeadWithSession extends import("./salesConfig").Lead {
+export type LeadWithSession = import("./salesConfig").Lead & {
   session?: ConversationSession | null;
-}
+};
 
 // Unified lead filters (combines lead filters with conversation status)
 export interface UnifiedLeadFilters {
   status?: import("./salesConfig").LeadStatus;
   qualification_score?: import("./salesConfig").QualificationScore;
   conversation_status?: "none" | ConversationControlMode;
+  assigned_rep_id?: string; // Team member id, or "none" for unassigned leads
+  team_id?: string; // Team handling the lead's conversation
+  source?: string; // Conversation source
+  created_from?: string; // yyyy-MM-dd, inclusive
+  created_to?: string; // yyyy-MM-dd, inclusive
+  inactive_hours?: number; // No lead or conversation activity for this long
+  escalated_hours?: number; // Waiting on a human for at least this long
+  // Custom field key -> value; text fields match by substring, other
+  // types exactly
+  custom_fields?: Record<string, string>;
+  tag_id?: string; // On the lead or its conversation
   search?: string;
 }
 
+// Who can see a saved lead view
+export type LeadViewScope = "personal" | "organization";
+
+// Saved view filters. The assignee is kept as entered ("me", "none" or a
+// team member id) so a shared "My leads" view works for every rep.
+export type LeadViewFilters = Omit<UnifiedLeadFilters, "assigned_rep_id"> & {
+  assignee?: string;
+};
+
+// Named lead filter combination, saved per user or shared with the org
+export interface LeadView {
+  id: string;
+  organization_id: string;
+  created_by: string; // Auth user id
+  created_by_name?: string;
+  name: string;
+  scope: LeadViewScope;
+  filters: LeadViewFilters;
+  created_at: string;
+  updated_at: string;
+}
+
+// Sortable columns on the Leads list
+export type LeadSortField =
+  | "last_activity"
+  | "created_at"
+  | "contact_name"
+  | "company_name"
+  | "qualification_score"
+  | "status";
+
+export type SortDirection = "asc" | "desc";
+
+// Server-side query for the Leads list
+export interface LeadListParams extends UnifiedLeadFilters {
+  page: number;
+  pageSize: number;
+  sort_by: LeadSortField;
+  sort_dir: SortDirection;
+}
+
+// Field changes applied to every lead in a bulk update
+export interface LeadBulkUpdates {
+  status?: import("./salesConfig").LeadStatus;
+  qualification_score?: import("./salesConfig").QualificationScore;
+  assigned_rep_id?: string | null;
+}
+
+export interface LeadBulkUpdate {
+  lead_ids: string[];
+  updates: LeadBulkUpdates;
+}
+
+// Tags added to or removed from every selected lead. Orphan sessions
+// (virtual leads) are tagged by session id.
+export interface LeadBulkTag {
+  lead_ids: string[];
+  session_ids: string[];
+  add_tag_ids?: string[];
+  remove_tag_ids?: string[];
+}
+
+// Orphan sessions (virtual leads) have no lead row, so they are deleted
+// by session id
+export interface LeadBulkDelete {
+  lead_ids: string[];
+  session_ids: string[];
+}
+
+export interface BulkOperationResult {
+  affected: number;
+}
+
+// Why leads were flagged as possible duplicates
+export type LeadDuplicateReason = "phone" | "name_company";
+
+export interface LeadDuplicateGroup {
+  id: string;
+  reason: LeadDuplicateReason;
+  similarity: number; // 0-1, always 1 for normalized phone matches
+  leads: LeadWithSession[];
+}
+
+// Lead fields that can be taken from either side of a merge
+export type LeadMergeField =
+  | "phone"
+  | "contact_name"
+  | "company_name"
+  | "use_case"
+  | "current_stack"
+  | "expected_volume"
+  | "timeline"
+  | "qualification_score"
+  | "status"
+  | "notes"
+  | "assigned_rep_id";
+
+// The primary lead survives; the duplicate's sessions and calls are
+// re-pointed to it and the duplicate is deleted. Orphan sessions (virtual
+// leads) are merged by session id.
+export interface LeadMergeRequest {
+  primary_lead_id: string;
+  duplicate_lead_id?: string;
+  duplicate_session_id?: string;
+  take_from_duplicate: LeadMergeField[];
+}
+
+// Audit record of a completed merge (sales.lead_merges)
+export interface LeadMerge {
+  id: string;
+  organization_id: string;
+  primary_lead_id: string;
+  merged_lead_id?: string | null;
+  merged_lead_snapshot: Partial<import("./salesConfig").Lead>;
+  session_ids: string[];
+  call_ids: string[];
+  merged_by?: string | null;
+  merged_by_name?: string | null;
+  created_at: string;
+}
+
 // Team types
 export interface Team {
   id: string;
@@ -173,6 +469,33 @@ export interface Team {
   created_at: string;
 }
 
+// Org-scoped label for leads and conversations (sales.tags). The agent
+// service applies a tag to a conversation and its lead when an incoming
+// message contains one of its keywords.
+export interface Tag {
+  id: string;
+  organization_id: string;
+  name: string;
+  color: string;
+  keywords: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Canned reply staff insert into a conversation with "/shortcut"
+// (sales.snippets). One row per language, so the same shortcut can exist in
+// each of the org's supported languages.
+export interface Snippet {
+  id: string;
+  organization_id: string;
+  shortcut: string;
+  title: string;
+  language: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface TeamMember {
   id: string;
   user_id: string;
@@ -40,6 +40,56 @@ export interface SalesRepAvailability {
   calendar_id?: string;
 }
 
+// How new leads are distributed across reps
+export type LeadAssignmentStrategy = "round_robin" | "timezone_region" | "team";
+
+// Automatic lead assignment rules (applied by the backend when a lead
+// reaches one of the trigger scores and has no assignee yet)
+export interface LeadAssignmentRules {
+  enabled: boolean;
+  strategy: LeadAssignmentStrategy;
+  trigger_scores: QualificationScore[];
+  team_id?: string; // Required for the "team" strategy
+  balance_workload: boolean; // Prefer the rep with the fewest open leads
+  max_open_leads_per_rep?: number;
+}
+
+// What happens when a lead misses a call. The backend marks a scheduled
+// call no_show once it is grace_minutes past its start with no outcome;
+// calls reps mark no_show themselves get the same treatment.
+export interface NoShowPolicy {
+  enabled: boolean;
+  grace_minutes: number;
+  send_rebook_message: boolean;
+  // Keyed by language; the lead's conversation language is used, falling
+  // back to the primary language
+  rebook_messages: Record<string, string>;
+  return_to_agent: boolean; // Agent takes the chat back to offer new slots
+}
+
+// Value types for org-defined lead fields
+export type CustomLeadFieldType =
+  | "text"
+  | "number"
+  | "select"
+  | "date"
+  | "boolean";
+
+// Stored in Lead.custom_fields; dates are yyyy-MM-dd strings
+export type CustomLeadFieldValue = string | number | boolean | null;
+
+// Org-defined lead field. Values live in Lead.custom_fields under `key`;
+// fields with agent_collect are added to the agent's qualification so it
+// can fill them from the chat.
+export interface CustomLeadField {
+  key: string; // snake_case, never changes once values exist
+  label: string;
+  type: CustomLeadFieldType;
+  options?: string[]; // "select" only
+  agent_collect: boolean;
+  agent_instructions?: string; // What to ask or listen for
+}
+
 // HubSpot integration settings
 export interface HubSpotIntegration {
   enabled: boolean;
@@ -124,8 +174,10 @@ export interface SalesOrganizationConfig {
   escalation_phone?: string;
   primary_language: "ru" | "en";
   supported_languages: string[];
+  timezone?: string; // IANA; reporting days start here, else the browser's
   call_duration_minutes: number;
   call_type_name: string;
+  call_outcomes: string[]; // Choices in the rep's post-call form
   product_info: Record<string, ProductInfoTopic>;
   qualification_questions: QualificationQuestion[];
   scoring_criteria: ScoringCriteria;
@@ -139,6 +191,9 @@ export interface SalesOrganizationConfig {
   bant_qualification: BANTQualification;
   escalation_triggers: EscalationTriggers;
   agent_behavior: AgentBehavior;
+  lead_assignment: LeadAssignmentRules;
+  no_show_policy: NoShowPolicy;
+  custom_lead_fields: CustomLeadField[];
 
   // Greeting messages per language
   greeting_messages: Record<string, string>;
@@ -176,6 +231,8 @@ export interface Lead {
   status: LeadStatus;
   notes?: string;
   assigned_rep_id?: string;
+  custom_fields?: Record<string, CustomLeadFieldValue>;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -195,6 +252,8 @@ export interface DiscoveryCall {
   google_event_id?: string;
   notes?: string;
   outcome?: string;
+  next_step?: string;
+  follow_up_at?: string; // yyyy-MM-dd
   created_at: string;
   updated_at: string;
 }
@@ -231,8 +290,10 @@ export interface SalesConfigFormData {
   escalation_phone?: string;
   primary_language: "ru" | "en";
   supported_languages: string[];
+  timezone?: string; // IANA; reporting days start here, else the browser's
   call_duration_minutes: number;
   call_type_name: string;
+  call_outcomes: string[]; // Choices in the rep's post-call form
   product_info: Record<string, ProductInfoTopic>;
   qualification_questions: QualificationQuestion[];
   scoring_criteria: ScoringCriteria;
@@ -246,6 +307,9 @@ export interface SalesConfigFormData {
   bant_qualification: BANTQualification;
   escalation_triggers: EscalationTriggers;
   agent_behavior: AgentBehavior;
+  lead_assignment: LeadAssignmentRules;
+  no_show_policy: NoShowPolicy;
+  custom_lead_fields: CustomLeadField[];
 
   // Greeting messages
   greeting_messages: Record<string, string>;
@@ -254,6 +318,26 @@ export interface SalesConfigFormData {
   hitl_auto_release_hours: number;
 }
 
+// Outcome choices until an org sets its own
+export const DEFAULT_CALL_OUTCOMES = [
+  "Interested - next meeting booked",
+  "Interested - sending proposal",
+  "Needs follow-up",
+  "Not a fit",
+  "Went with a competitor",
+];
+
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+  enabled: false,
+  grace_minutes: 15,
+  send_rebook_message: true,
+  rebook_messages: {
+    ru: "Здравствуйте! Похоже, созвониться не получилось. Давайте подберём другое удобное время?",
+    en: "Hi! Looks like we missed each other on the call. Shall we find another time that works for you?",
+  },
+  return_to_agent: true,
+};
+
 // Default config for new organizations
 export const DEFAULT_SALES_CONFIG: Omit<
   SalesConfigFormData,
@@ -266,6 +350,7 @@ export const DEFAULT_SALES_CONFIG: Omit<
   supported_languages: ["ru", "en"],
   call_duration_minutes: 30,
   call_type_name: "discovery-call",
+  call_outcomes: DEFAULT_CALL_OUTCOMES,
   product_info: {
     general: { title: "About Us", title_en: "About Us", content: "" },
     features: {
@@ -369,6 +454,14 @@ export const DEFAULT_SALES_CONFIG: Omit<
     bot_disclosure_message_en:
       "Hi! I'm a sales assistant bot. I can answer questions about the product and help schedule a call with a manager.",
   },
+  lead_assignment: {
+    enabled: false,
+    strategy: "round_robin",
+    trigger_scores: ["hot"],
+    balance_workload: true,
+  },
+  no_show_policy: DEFAULT_NO_SHOW_POLICY,
+  custom_lead_fields: [],
   greeting_messages: {
     ru: "",
     en: "",
@@ -20,6 +20,8 @@ export default defineConfig({
             return;
           }
           if (id.includes("@radix-ui")) return "radix-ui";
+          // Only loaded on demand by lead import/export
+          if (id.includes("exceljs")) return "exceljs";
           if (id.includes("@supabase") || id.includes("supabase"))
             return "supabase";
           return "vendor";